@@ -0,0 +1,21 @@
+// Generates resources/emojis.json from the gemoji dataset, so the emoji
+// picker works offline. Run with `yarn run emojis` after updating gemoji.
+import { writeFile } from "fs/promises";
+import { gemoji } from "gemoji";
+
+const STOP_WORDS = new Set(["a", "and", "as", "for", "in", "of", "on", "the", "to", "with", "&"]);
+
+const emojis = gemoji.map((entry) => ({
+  names: entry.names,
+  unicode: entry.emoji,
+  category: entry.category,
+  keywords: [...new Set([...entry.tags, ...entry.description.toLowerCase().split(/\s+/)])].filter(
+    (keyword) => keyword && !STOP_WORDS.has(keyword) && !entry.names.includes(keyword)
+  ),
+}));
+
+await writeFile(
+  new URL("../resources/emojis.json", import.meta.url),
+  `[\n${emojis.map((emoji) => JSON.stringify(emoji)).join(",\n")}\n]\n`
+);
+console.log(`Wrote ${emojis.length} emojis`);
@@ -0,0 +1,181 @@
+import * as vscode from "vscode";
+import type { UserStatus } from "./service/github";
+import type { ControllerState } from "./service/controller";
+import { CustomStatus, validateCustomStatus } from "./service/custom";
+import type { EmojiInfo } from "./service/emoji";
+import { getOutputChannel } from "./service/output";
+
+// Expiry of temporary statuses that don't set `minutes`
+export const DEFAULT_TEMPORARY_MINUTES = 60;
+
+export interface TemporaryStatus {
+  message: string;
+  // Emoji name, with or without colons
+  emoji?: string;
+  // Minutes until automatic updates resume, an hour when missing
+  minutes?: number;
+  busy?: boolean;
+}
+
+export interface GitHubStatusState {
+  state: ControllerState;
+  // Last status posted to GitHub in this session
+  status?: {
+    message: string | null;
+    emoji: string | null;
+    busy: boolean;
+    expiresAt: string | null;
+  };
+  // Whether a custom or temporary status pauses automatic updates
+  custom: boolean;
+}
+
+/**
+ * Returned by `activate`, e.g.
+ * `vscode.extensions.getExtension<GitHubStatusApi>("ericm.github-status-presence")`.
+ */
+export interface GitHubStatusApi {
+  /**
+   * Posts a status such as "Deploying to staging" and pauses automatic
+   * updates until it expires. Rejects invalid statuses, and while signed out,
+   * paused or the workspace is blacklisted. Workspace names in the message are
+   * replaced like in automatic statuses, e.g. by their aliases.
+   */
+  setTemporaryStatus(status: TemporaryStatus): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<ControllerState>;
+  getState(): GitHubStatusState;
+  // Fires when a status was posted or syncing started or stopped
+  readonly onDidChangeStatus: vscode.Event<GitHubStatusState>;
+}
+
+// The parts of GitHubService the API uses
+export interface ApiStatusTarget {
+  readonly received: boolean;
+  readonly lastPosted: UserStatus | undefined;
+  readonly customStatus: UserStatus | undefined;
+  readonly onDidPostStatus: vscode.Event<UserStatus>;
+  getAvailableEmojis(): EmojiInfo[];
+  redactMessage(message: string): string;
+  setCustomStatus(status: CustomStatus): Promise<void>;
+}
+
+// The parts of StatusController the API uses
+export interface ApiController {
+  readonly state: ControllerState;
+  readonly onDidChangeState: vscode.Event<ControllerState>;
+  pause(): Promise<void>;
+  resume(): Promise<ControllerState>;
+}
+
+/**
+ * Reads a temporary status from the query of a URI such as
+ * `vscode://ericm.github-status-presence/set?message=On%20call&emoji=pager&minutes=60`.
+ */
+export function parseStatusQuery(query: string): TemporaryStatus {
+  const params = new URLSearchParams(query);
+  const minutes = params.get("minutes");
+  const busy = params.get("busy");
+  return {
+    message: params.get("message") ?? "",
+    emoji: params.get("emoji") || undefined,
+    minutes: minutes ? Number(minutes) : undefined,
+    busy: busy === "true" || busy === "1",
+  };
+}
+
+export function toCustomStatus(status: TemporaryStatus): CustomStatus {
+  return {
+    message: status.message ?? "",
+    emoji: status.emoji?.replace(/^:|:$/g, "") || undefined,
+    busy: !!status.busy,
+    // Always expires, so other tools can't turn off syncing for good
+    expiry: { kind: "minutes", minutes: status.minutes ?? DEFAULT_TEMPORARY_MINUTES },
+  };
+}
+
+export function createApi(
+  service: ApiStatusTarget,
+  controller: ApiController
+): GitHubStatusApi & vscode.Disposable {
+  const onDidChangeStatus = new vscode.EventEmitter<GitHubStatusState>();
+
+  const getState = (): GitHubStatusState => {
+    const posted = service.lastPosted;
+    return {
+      state: controller.state,
+      status: posted && {
+        message: posted.message ?? null,
+        emoji: posted.emoji ?? null,
+        busy: !!posted.limitedAvailability,
+        expiresAt: posted.expiresAt ?? null,
+      },
+      custom: !!service.customStatus,
+    };
+  };
+
+  const disposables = [
+    onDidChangeStatus,
+    service.onDidPostStatus(() => onDidChangeStatus.fire(getState())),
+    controller.onDidChangeState(() => onDidChangeStatus.fire(getState())),
+  ];
+
+  return {
+    async setTemporaryStatus(status) {
+      // Plain text rather than a template, only names are replaced for privacy
+      const custom = toCustomStatus(status);
+      custom.message = service.redactMessage(custom.message);
+      const error = validateCustomStatus(custom, service.getAvailableEmojis());
+      if (error) {
+        throw new Error(error);
+      }
+      if (!service.received || controller.state === "error") {
+        throw new Error("Not signed in to GitHub");
+      }
+      if (controller.state === "blacklisted") {
+        throw new Error("This workspace is excluded from GitHub Status");
+      }
+      if (controller.state === "paused") {
+        throw new Error("GitHub Status is paused");
+      }
+      await service.setCustomStatus(custom);
+    },
+    pause: () => controller.pause(),
+    resume: () => controller.resume(),
+    getState,
+    onDidChangeStatus: onDidChangeStatus.event,
+    dispose: () => disposables.forEach((disposable) => disposable.dispose()),
+  };
+}
+
+/**
+ * Handles `vscode://ericm.github-status-presence/set?message=…&emoji=…&minutes=…`
+ * so scripts can set a temporary status, with the same checks as the API.
+ */
+export class StatusUriHandler implements vscode.UriHandler {
+  private __api: GitHubStatusApi;
+
+  constructor(api: GitHubStatusApi) {
+    this.__api = api;
+  }
+
+  public async handleUri(uri: vscode.Uri): Promise<void> {
+    if (uri.path !== "/set") {
+      vscode.window.showErrorMessage(`GitHub Status can't handle ${uri.path}, use /set?message=…`);
+      return;
+    }
+
+    const status = parseStatusQuery(uri.query);
+    try {
+      await this.__api.setTemporaryStatus(status);
+      getOutputChannel().info(`Status set from URI: ${status.message}`);
+      vscode.window.showInformationMessage(
+        `GitHub status set to "${status.message}", automatic updates are paused until it expires`
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : `${err}`;
+      getOutputChannel().warn(`Rejected status from URI: ${message}`);
+      vscode.window.showErrorMessage(`Failed to set GitHub status: ${message}`);
+    }
+  }
+}
@@ -1,53 +1,123 @@
 import * as vscode from "vscode";
 import GitHubService from "./service/github";
-
-const statusBarIcon = vscode.window.createStatusBarItem(
-  vscode.StatusBarAlignment.Left
-);
-statusBarIcon.text = "$(pulse) Sending to GitHub status...";
+import { migrateToken, signOut, storeToken } from "./service/auth";
+import { WindowCoordinator } from "./service/coordinator";
+import { SyncStateChange } from "./service/sync";
+import { isIncognito, setIncognito } from "./service/privacy";
+import { getWebUrl } from "./service/endpoint";
+import { formatStatus, getOutputChannel } from "./service/output";
+import { CustomPresets } from "./service/custom";
+import { getProviderConfigs, storeProviderToken } from "./service/provider";
+import { pickCustomStatus } from "./view/customStatus";
+import { StatsTracker, toCsv } from "./service/stats";
+import { FocusSession } from "./service/focus";
+import { ActivityTracker } from "./service/activity";
+import { StatusController } from "./service/controller";
+import { showStatistics } from "./view/statistics";
+import { StatusBar } from "./view/statusBar";
+import { TeammatesView } from "./view/teammates";
+import { createApi, GitHubStatusApi, StatusUriHandler } from "./api";
+import { getFolderStates, getIncludedFolders, getList, getListMode, getWorkspaceName } from "./service/filter";
 
 let config = vscode.workspace.getConfiguration("githubstatus");
-let interval: NodeJS.Timeout | null = null;
 let gitHubService: GitHubService;
-let isActive = false; // Track activation status
+let controller: StatusController | undefined;
+let coordinator: WindowCoordinator | undefined;
+let statsTracker: StatsTracker | undefined;
+let focusSession: FocusSession | undefined;
+let activityTracker: ActivityTracker | undefined;
+let teammatesView: TeammatesView | undefined;
+
+// Whether statuses are being posted, idle or not
+const isActive = () => !!controller?.isSyncing;
+
+export type { GitHubStatusApi, GitHubStatusState, TemporaryStatus } from "./api";
+
+export async function activate(context: vscode.ExtensionContext): Promise<GitHubStatusApi> {
+  await migrateToken(context);
+
+  // Only the most recently focused window posts the status
+  coordinator = new WindowCoordinator(context);
+  await coordinator.join();
+  context.subscriptions.push(coordinator);
+
+  gitHubService = new GitHubService(context, coordinator);
+  context.subscriptions.push(gitHubService, gitHubService.onDidChangeSyncState(showSyncState));
 
-export async function activate(context: vscode.ExtensionContext) {
-  statusBarIcon.show();
+  focusSession = new FocusSession(context.globalState);
+  context.subscriptions.push(focusSession);
+  gitHubService.setFocusSession(focusSession);
 
-  // Listen for configuration changes to blacklist
+  // Debug sessions and tasks
+  activityTracker = new ActivityTracker();
+  context.subscriptions.push(activityTracker);
+  gitHubService.setActivityTracker(activityTracker);
+
+  // Record time spent per workspace and language
+  statsTracker = new StatsTracker(
+    context,
+    () => (isActive() && gitHubService ? gitHubService.getActivity() : undefined),
+    coordinator
+  );
+  statsTracker.start();
+  context.subscriptions.push(statsTracker);
+
+  const tracker = activityTracker;
+  controller = new StatusController(gitHubService, {
+    activity: [tracker.onDidInteract, tracker.onDidChange, focusSession.onDidChange],
+    isBusy: () => tracker.isBusy,
+    isLeader: () => coordinator?.isLeader ?? true,
+  });
+  context.subscriptions.push(controller, new StatusBar(gitHubService, controller, focusSession));
+
+  // Teammates' statuses, loaded again once signed in or back from idle
+  const teammates = new TeammatesView(gitHubService);
+  teammatesView = teammates;
+  context.subscriptions.push(
+    teammates,
+    controller.onDidChangeState((state) => {
+      if (state === "active" || state === "error") {
+        teammates.refresh();
+      }
+    })
+  );
+
+  // Settings that change what is synced and where it is posted
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((event) => {
-      if (event.affectsConfiguration("githubstatus.blacklist")) {
+      if (
+        event.affectsConfiguration("githubstatus.blacklist") ||
+        event.affectsConfiguration("githubstatus.allowlist") ||
+        event.affectsConfiguration("githubstatus.listMode") ||
+        event.affectsConfiguration("githubstatus.apiBaseUrl") ||
+        event.affectsConfiguration("githubstatus.providers") ||
+        event.affectsConfiguration("githubstatus.organization") ||
+        event.affectsConfiguration("githubstatus.organizationMap") ||
+        event.affectsConfiguration("githubstatus.interval") ||
+        event.affectsConfiguration("githubstatus.idleTimeout")
+      ) {
         config = vscode.workspace.getConfiguration("githubstatus");
-        vscode.commands.executeCommand("githubstatus.restart");
+        controller?.reconfigure();
       }
     })
   );
 
-  // Check blacklist
-  const folders = vscode.workspace.workspaceFolders;
-  const blacklist = config.get<string[]>("blacklist") || [];
-
-  if (!folders || blacklist.includes(folders[0].uri.fsPath)) {
-    statusBarIcon.text = "GitHub Status Blacklisted";
-    statusBarIcon.command = "githubstatus.toggleBlacklist";
-    statusBarIcon.tooltip = "Click to remove from blacklist";
-    isActive = false;
-    return;
-  }
+  registerCommands(context);
 
-  const token = config.get<string>("token");
-  gitHubService = new GitHubService(token, context);
+  // Other extensions and scripts can set a temporary status
+  const api = createApi(gitHubService, controller);
+  context.subscriptions.push(api, vscode.window.registerUriHandler(new StatusUriHandler(api)));
 
-  if (gitHubService.received && vscode.workspace.name) {
-    interval = await gitHubService.updateStatus(vscode.workspace.name);
-    isActive = true;
-  }
-
-  statusBarIcon.text = "GitHub Status Syncing";
-  statusBarIcon.command = "githubstatus.showMenu";
-  statusBarIcon.tooltip = "Click to open GitHub Status menu";
+  // Signing in can take a while, don't keep other extensions waiting for the API
+  controller.start().then((state) => {
+    if (state === "error" && !gitHubService.received) {
+      promptSignIn();
+    }
+  });
+  return api;
+}
 
+function registerCommands(context: vscode.ExtensionContext) {
   try {
     // Create Token Command
     let createTokenCmd = vscode.commands.registerCommand(
@@ -61,7 +131,7 @@ export async function activate(context: vscode.ExtensionContext) {
           );
           if (info) {
             await vscode.env.openExternal(
-              vscode.Uri.parse("https://github.com/settings/tokens")
+              vscode.Uri.parse(`${getWebUrl()}/settings/tokens`)
             );
             vscode.commands.executeCommand("githubstatus.accessToken");
           }
@@ -79,11 +149,10 @@ export async function activate(context: vscode.ExtensionContext) {
           const newToken = await vscode.window.showInputBox({
             prompt: "Enter the GitHub access token here",
             password: true,
+            ignoreFocusOut: true,
           });
-          if (!newToken) {
-            vscode.commands.executeCommand("githubstatus.accessToken");
-          } else {
-            await config.update("token", newToken, vscode.ConfigurationTarget.Global);
+          if (newToken) {
+            await storeToken(context, newToken);
             vscode.commands.executeCommand("githubstatus.restart");
           }
         } catch (err) {
@@ -92,6 +161,67 @@ export async function activate(context: vscode.ExtensionContext) {
       }
     );
 
+    // Set Provider Token Command
+    let setProviderTokenCmd = vscode.commands.registerCommand(
+      "githubstatus.setProviderToken",
+      async () => {
+        const providers = getProviderConfigs();
+        if (providers.length === 0) {
+          vscode.window.showInformationMessage("Add GitLab, Gitea or Slack accounts to githubstatus.providers first");
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          providers.map((provider) => ({
+            label: provider.name,
+            description: provider.type,
+            detail: provider.baseUrl,
+            provider
+          })),
+          { placeHolder: "Select the account to set the token for" }
+        );
+        if (!selected) {
+          return;
+        }
+        const token = await vscode.window.showInputBox({
+          prompt: `Enter the ${selected.provider.type} token for ${selected.provider.name}`,
+          password: true,
+          ignoreFocusOut: true,
+        });
+        if (token) {
+          await storeProviderToken(context, selected.provider.name, token);
+          vscode.commands.executeCommand("githubstatus.restart");
+        }
+      }
+    );
+
+    // Sign In Command
+    let signInCmd = vscode.commands.registerCommand(
+      "githubstatus.signIn",
+      async () => {
+        try {
+          if (gitHubService && (await gitHubService.authenticate(true))) {
+            await controller?.start("manual");
+          }
+        } catch (err) {
+          console.error(err);
+        }
+      }
+    );
+
+    // Sign Out Command
+    let signOutCmd = vscode.commands.registerCommand(
+      "githubstatus.signOut",
+      async () => {
+        // Reset the status while the credentials are still available
+        await controller?.pause();
+        await signOut(context);
+        // Ends up in the error state without credentials
+        await controller?.start();
+        vscode.window.showInformationMessage("Signed out of GitHub Status");
+      }
+    );
+
     // Show Menu Command
     let showMenuCmd = vscode.commands.registerCommand(
       "githubstatus.showMenu",
@@ -103,7 +233,7 @@ export async function activate(context: vscode.ExtensionContext) {
             action: "restart"
           },
           // Dynamic activate/deactivate option
-          isActive ? {
+          isActive() ? {
             label: "$(stop-circle) Deactivate Status",
             detail: "Stop GitHub status synchronization and set idle",
             action: "deactivate"
@@ -112,6 +242,56 @@ export async function activate(context: vscode.ExtensionContext) {
             detail: "Start GitHub status synchronization",
             action: "activate"
           },
+          isIncognito() ? {
+            label: "$(eye) Leave Incognito",
+            detail: "Show workspace names in your status again",
+            action: "toggleIncognito"
+          } : {
+            label: "$(eye-closed) Go Incognito",
+            detail: "Hide workspace, file and branch names for this session",
+            action: "toggleIncognito"
+          },
+          ...(focusSession?.current ? [
+            focusSession.current.mode === "focus" ? {
+              label: "$(coffee) Start Break",
+              detail: "End the focus session and take a break",
+              action: "startBreak"
+            } : {
+              label: "$(target) Start Focus",
+              detail: "End the break and start another focus session",
+              action: "startFocus"
+            },
+            {
+              label: "$(debug-stop) Stop Focus",
+              detail: "End the focus session and post your regular status",
+              action: "stopFocus"
+            }
+          ] : [
+            {
+              label: `$(target) Start Focus (${focusMinutes()} min)`,
+              detail: "Post a busy status until the focus session ends",
+              action: "startFocus"
+            }
+          ]),
+          gitHubService?.customStatus ? {
+            label: "$(close) Clear Custom Status",
+            detail: `Resume automatic updates instead of "${gitHubService.customStatus.message}"`,
+            action: "clearCustomStatus"
+          } : {
+            label: "$(edit) Set Custom Status...",
+            detail: "Post your own message and pause automatic updates",
+            action: "setCustomStatus"
+          },
+          {
+            label: "$(history) Show Status History",
+            detail: "Inspect and re-send recent status updates",
+            action: "showHistory"
+          },
+          {
+            label: "$(organization) Select Organization",
+            detail: "Choose who can see your status",
+            action: "selectOrganization"
+          },
           {
             label: "$(settings-gear) Select Emoji",
             detail: "Choose a new emoji for your status",
@@ -142,9 +322,33 @@ export async function activate(context: vscode.ExtensionContext) {
             case "selectEmoji":
               vscode.commands.executeCommand("githubstatus.selectEmoji");
               break;
+            case "setCustomStatus":
+              vscode.commands.executeCommand("githubstatus.setCustomStatus");
+              break;
+            case "clearCustomStatus":
+              vscode.commands.executeCommand("githubstatus.clearCustomStatus");
+              break;
+            case "showHistory":
+              vscode.commands.executeCommand("githubstatus.showHistory");
+              break;
+            case "selectOrganization":
+              vscode.commands.executeCommand("githubstatus.selectOrganization");
+              break;
             case "toggleBlacklist":
               vscode.commands.executeCommand("githubstatus.toggleBlacklist");
               break;
+            case "startFocus":
+              vscode.commands.executeCommand("githubstatus.startFocus");
+              break;
+            case "startBreak":
+              vscode.commands.executeCommand("githubstatus.startBreak");
+              break;
+            case "stopFocus":
+              vscode.commands.executeCommand("githubstatus.stopFocus");
+              break;
+            case "toggleIncognito":
+              vscode.commands.executeCommand("githubstatus.toggleIncognito");
+              break;
           }
         }
       }
@@ -160,7 +364,7 @@ export async function activate(context: vscode.ExtensionContext) {
             await config.update("emoji", selectedEmoji, vscode.ConfigurationTarget.Global);
             vscode.window.showInformationMessage(`Emoji updated to :${selectedEmoji}:`);
             // Restart to apply the new emoji if currently active
-            if (isActive) {
+            if (isActive()) {
               vscode.commands.executeCommand("githubstatus.restart");
             }
           }
@@ -168,48 +372,273 @@ export async function activate(context: vscode.ExtensionContext) {
       }
     );
 
+    // Select Organization Command
+    let selectOrganizationCmd = vscode.commands.registerCommand(
+      "githubstatus.selectOrganization",
+      async () => {
+        if (!gitHubService?.received) {
+          promptSignIn();
+          return;
+        }
+
+        let organizations;
+        try {
+          organizations = await gitHubService.getOrganizations();
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to load your organizations: ${errorMessage(error)}`);
+          return;
+        }
+
+        const current = config.get<string>("organization");
+        const selected = await vscode.window.showQuickPick(
+          [
+            {
+              label: "$(globe) Public",
+              description: current ? undefined : "Current",
+              detail: "Everyone can see your status",
+              login: ""
+            },
+            ...organizations.map((organization) => ({
+              label: `$(organization) ${organization.login}`,
+              description: organization.login === current ? "Current" : organization.name ?? undefined,
+              detail: `Only members of ${organization.name || organization.login} can see your status`,
+              login: organization.login
+            }))
+          ],
+          { placeHolder: "Who should see your status?" }
+        );
+        if (!selected) {
+          return;
+        }
+
+        // Keep a workspace specific organization in the workspace settings
+        const target = config.inspect<string>("organization")?.workspaceValue !== undefined
+          ? vscode.ConfigurationTarget.Workspace
+          : vscode.ConfigurationTarget.Global;
+        await config.update("organization", selected.login || undefined, target);
+        if (Object.keys(config.get<object>("organizationMap") || {}).length > 0) {
+          vscode.window.showInformationMessage(
+            "Repositories in githubstatus.organizationMap keep their own organization"
+          );
+        }
+      }
+    );
+
     // Toggle Blacklist Command
     let toggleBlacklistCmd = vscode.commands.registerCommand(
       "githubstatus.toggleBlacklist",
       async () => {
-        const folders = vscode.workspace.workspaceFolders;
-        if (!folders) {
+        const states = await getFolderStates();
+        if (states.length === 0) {
           vscode.window.showErrorMessage("No workspace folder found");
           return;
         }
 
-        const workspacePath = folders[0].uri.fsPath;
-        const blacklist = config.get<string[]>("blacklist") || [];
-        const isBlacklisted = blacklist.includes(workspacePath);
+        const mode = getListMode();
+        const list = getList(mode);
+        const addPattern = "$(add) Add Pattern...";
+        const selected = await vscode.window.showQuickPick(
+          [
+            ...states.map((state) => ({
+              label: `${state.excluded ? "$(circle-slash)" : "$(check)"} ${state.folder.name}`,
+              description: state.excluded ? "Not synced" : "Synced",
+              detail: state.matches.length > 0
+                ? `${state.folder.uri.fsPath} (matches ${state.matches.join(", ")})`
+                : state.folder.uri.fsPath,
+              state,
+            })),
+            {
+              label: addPattern,
+              description: `Add a glob or remote URL pattern to the ${mode}`,
+              detail: undefined,
+              state: undefined,
+            },
+          ],
+          { placeHolder: `Choose a folder to add to or remove from the ${mode}` }
+        );
+        if (!selected) {
+          return;
+        }
 
-        if (isBlacklisted) {
-          // Remove from blacklist
-          const newBlacklist = blacklist.filter(path => path !== workspacePath);
-          await config.update("blacklist", newBlacklist, vscode.ConfigurationTarget.Global);
-          vscode.window.showInformationMessage("Workspace removed from blacklist");
-          vscode.commands.executeCommand("githubstatus.restart");
+        let newList: string[];
+        if (!selected.state) {
+          const pattern = await vscode.window.showInputBox({
+            prompt: "Enter a path, glob pattern or remote URL pattern",
+            placeHolder: "~/work/clients/** or github.com/acme/*",
+          });
+          if (!pattern) {
+            return;
+          }
+          newList = [...list, pattern];
+          vscode.window.showInformationMessage(`Pattern added to ${mode}`);
+        } else if (selected.state.matches.length > 0) {
+          // Remove every entry that matches the folder, including patterns
+          newList = list.filter((entry) => !selected.state?.matches.includes(entry));
+          vscode.window.showInformationMessage(`${selected.state.folder.name} removed from ${mode}`);
         } else {
-          // Add to blacklist
-          const newBlacklist = [...blacklist, workspacePath];
-          await config.update("blacklist", newBlacklist, vscode.ConfigurationTarget.Global);
-          vscode.window.showInformationMessage("Workspace added to blacklist");
-          await deactivate();
-          // Ensure status bar reflects blacklisted state
-          statusBarIcon.text = "GitHub Status Blacklisted";
-          statusBarIcon.command = "githubstatus.toggleBlacklist";
-          statusBarIcon.tooltip = "Click to remove from blacklist";
-          isActive = false;
+          newList = [...list, selected.state.folder.uri.fsPath];
+          vscode.window.showInformationMessage(`${selected.state.folder.name} added to ${mode}`);
+        }
+
+        // The configuration listener restarts the sync with the new list
+        await config.update(mode, newList, vscode.ConfigurationTarget.Global);
+        config = vscode.workspace.getConfiguration("githubstatus");
+      }
+    );
+
+    // Toggle Incognito Command
+    let toggleIncognitoCmd = vscode.commands.registerCommand(
+      "githubstatus.toggleIncognito",
+      async () => {
+        setIncognito(!isIncognito());
+        vscode.window.showInformationMessage(
+          isIncognito() ? "GitHub Status is incognito for this session" : "GitHub Status left incognito"
+        );
+        // Post the changed status right away
+        const workspaceName = getWorkspaceName(await getIncludedFolders());
+        if (gitHubService && isActive() && workspaceName) {
+          await gitHubService.updateStatus(workspaceName, "manual");
+        }
+      }
+    );
+
+    // Set Custom Status Command
+    let setCustomStatusCmd = vscode.commands.registerCommand(
+      "githubstatus.setCustomStatus",
+      async () => {
+        if (!gitHubService?.received) {
+          promptSignIn();
+          return;
+        }
+        const status = await pickCustomStatus(gitHubService, new CustomPresets(context));
+        if (status) {
+          await gitHubService.setCustomStatus(status);
+          vscode.window.showInformationMessage("Custom status set, automatic updates are paused until it expires");
+        }
+      }
+    );
+
+    // Clear Custom Status Command
+    let clearCustomStatusCmd = vscode.commands.registerCommand(
+      "githubstatus.clearCustomStatus",
+      async () => {
+        if (gitHubService?.customStatus) {
+          await gitHubService.clearCustomStatus();
+          vscode.window.showInformationMessage("Custom status cleared, automatic updates resumed");
         }
       }
     );
 
+    // Show Status History Command
+    let showHistoryCmd = vscode.commands.registerCommand(
+      "githubstatus.showHistory",
+      async () => {
+        if (!gitHubService) {
+          return;
+        }
+
+        const entries = gitHubService.history.entries;
+        const openOutput = {
+          label: "$(output) Open Output Channel",
+          detail: "Show the log of all status updates and errors",
+          entry: undefined
+        };
+        const selected = await vscode.window.showQuickPick(
+          [
+            openOutput,
+            ...entries.map((entry) => ({
+              label: `${entry.error ? "$(error)" : entry.dryRun ? "$(beaker)" : "$(check)"} ${formatStatus(entry.status)}`,
+              description: `${new Date(entry.time).toLocaleString()} · ${entry.provider ?? "GitHub"} · ${entry.trigger}`,
+              detail: entry.error
+                ? `Failed: ${entry.error}`
+                : entry.dryRun ? "Dry run, not sent" : `Sent: ${JSON.stringify(entry.response)}`,
+              entry
+            }))
+          ],
+          { placeHolder: entries.length > 0 ? "Select a status to send it again" : "No status sent yet" }
+        );
+
+        if (selected === openOutput) {
+          getOutputChannel().show();
+        } else if (selected?.entry) {
+          await gitHubService.resend(selected.entry.status, selected.entry.provider);
+          vscode.window.showInformationMessage(`Sent ${formatStatus(selected.entry.status)} again`);
+        }
+      }
+    );
+
+    // Show Statistics Command
+    let showStatisticsCmd = vscode.commands.registerCommand(
+      "githubstatus.showStatistics",
+      async () => {
+        if (statsTracker) {
+          showStatistics(await statsTracker.getEntries());
+        }
+      }
+    );
+
+    // Export Statistics Command
+    let exportStatisticsCmd = vscode.commands.registerCommand(
+      "githubstatus.exportStatistics",
+      async () => {
+        if (!statsTracker) {
+          return;
+        }
+        const format = await vscode.window.showQuickPick(["CSV", "JSON"], {
+          placeHolder: "Choose an export format",
+        });
+        if (!format) {
+          return;
+        }
+        const extension = format === "CSV" ? "csv" : "json";
+        const uri = await vscode.window.showSaveDialog({
+          defaultUri: vscode.Uri.file(`github-status-statistics.${extension}`),
+          filters: { [format]: [extension] },
+        });
+        if (!uri) {
+          return;
+        }
+
+        try {
+          const entries = await statsTracker.getEntries();
+          const content = format === "CSV" ? toCsv(entries) : JSON.stringify(entries, null, 2);
+          await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+          vscode.window.showInformationMessage(`Statistics exported to ${uri.fsPath}`);
+        } catch (err) {
+          console.error(err);
+          vscode.window.showErrorMessage("Failed to export statistics");
+        }
+      }
+    );
+
+    // Focus Commands
+    let startFocusCmd = vscode.commands.registerCommand(
+      "githubstatus.startFocus",
+      () => focusSession?.start("focus", focusMinutes())
+    );
+
+    let startBreakCmd = vscode.commands.registerCommand(
+      "githubstatus.startBreak",
+      () => focusSession?.start("break", config.get<number>("breakMinutes") ?? 5)
+    );
+
+    let stopFocusCmd = vscode.commands.registerCommand(
+      "githubstatus.stopFocus",
+      () => focusSession?.stop()
+    );
+
+    let refreshTeammatesCmd = vscode.commands.registerCommand(
+      "githubstatus.refreshTeammates",
+      () => teammatesView?.refresh()
+    );
+
     // Restart Command
     let restartCmd = vscode.commands.registerCommand(
       "githubstatus.restart",
       () => {
         console.log("Restart");
         config = vscode.workspace.getConfiguration("githubstatus");
-        activate(context);
+        controller?.start("manual");
       }
     );
 
@@ -218,12 +647,13 @@ export async function activate(context: vscode.ExtensionContext) {
       "githubstatus.activate",
       async () => {
         console.log("Activating");
-        if (gitHubService && vscode.workspace.name) {
-          gitHubService.resetActivity(); // Reset idle state
-          interval = await gitHubService.updateStatus(vscode.workspace.name);
-          statusBarIcon.text = "GitHub Status Syncing";
-          statusBarIcon.tooltip = "Click to open GitHub Status menu";
-          isActive = true;
+        if (!controller) {
+          return;
+        }
+        const state = controller.state === "paused"
+          ? await controller.resume()
+          : await controller.start("manual");
+        if (state === "active") {
           vscode.window.showInformationMessage("GitHub Status activated");
         }
       }
@@ -234,14 +664,7 @@ export async function activate(context: vscode.ExtensionContext) {
       "githubstatus.deactivate",
       async () => {
         console.log("Deactivating");
-        await deactivate();
-        // Set user's default status message
-        if (gitHubService) {
-          await gitHubService.setDefault();
-        }
-        statusBarIcon.text = "GitHub Status Not Syncing";
-        statusBarIcon.tooltip = "Click to open GitHub Status menu";
-        isActive = false;
+        await controller?.pause();
         vscode.window.showInformationMessage("GitHub Status deactivated");
       }
     );
@@ -249,9 +672,23 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
       createTokenCmd,
       accessTokenCmd,
+      setProviderTokenCmd,
+      signInCmd,
+      signOutCmd,
       showMenuCmd,
       selectEmojiCmd,
+      selectOrganizationCmd,
       toggleBlacklistCmd,
+      toggleIncognitoCmd,
+      setCustomStatusCmd,
+      clearCustomStatusCmd,
+      showHistoryCmd,
+      showStatisticsCmd,
+      exportStatisticsCmd,
+      startFocusCmd,
+      startBreakCmd,
+      stopFocusCmd,
+      refreshTeammatesCmd,
       restartCmd,
       activateCmd,
       deactivateCmd
@@ -261,18 +698,63 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 }
 
+function focusMinutes(): number {
+  return config.get<number>("focusMinutes") ?? 25;
+}
+
+let lastSyncState: SyncStateChange["state"] | undefined;
+
+// The status bar shows sync failures, a rejected token also asks to sign in again
+function showSyncState(change: SyncStateChange) {
+  const previous = lastSyncState;
+  lastSyncState = change.state;
+  if (!isActive() || change.state !== "unauthorized" || previous === "unauthorized") {
+    return;
+  }
+
+  vscode.window
+    .showErrorMessage(
+      "GitHub rejected the token used to update your status.",
+      "Sign in with GitHub",
+      "Use Access Token"
+    )
+    .then((choice) => {
+      if (choice === "Sign in with GitHub") {
+        vscode.commands.executeCommand("githubstatus.signIn");
+      } else if (choice === "Use Access Token") {
+        vscode.commands.executeCommand("githubstatus.accessToken");
+      }
+    });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : `${error}`;
+}
+
+async function promptSignIn() {
+  const choice = await vscode.window.showInformationMessage(
+    "GitHub Status Presence needs access to your GitHub account to update your status.",
+    "Sign in with GitHub",
+    "Use Access Token"
+  );
+  if (choice === "Sign in with GitHub") {
+    vscode.commands.executeCommand("githubstatus.signIn");
+  } else if (choice === "Use Access Token") {
+    vscode.commands.executeCommand("githubstatus.createToken");
+  }
+}
+
 export async function deactivate() {
-  if (interval) {
-    clearInterval(interval);
-    interval = null;
+  controller?.stop();
+
+  // Leave the status alone while other windows are still posting it
+  let isLastWindow = true;
+  if (coordinator) {
+    isLastWindow = await coordinator.leave();
+    coordinator = undefined;
   }
 
-  if (gitHubService) {
+  if (gitHubService && isLastWindow) {
     await gitHubService.setDefault();
   }
-
-  // Update status bar to reflect deactivated or blacklisted state
-  statusBarIcon.text = isActive ? "GitHub Status Not Syncing" : "GitHub Status Blacklisted";
-  statusBarIcon.tooltip = "Click to open GitHub Status menu";
-  isActive = false;
-}
\ No newline at end of file
+}
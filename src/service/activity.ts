@@ -0,0 +1,264 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { getGitApi, Repository } from "./git";
+
+export type ActivityKind =
+  | "editing"
+  | "debugging"
+  | "testing"
+  | "building"
+  | "reviewing"
+  | "terminal"
+  | "notebook";
+
+export interface ActivityState {
+  kind: ActivityKind;
+  // Debug type of the active debug session, e.g. node
+  debugType?: string;
+  // Name of the running task or debug session, or the file name of a notebook
+  name?: string;
+}
+
+// Higher entries win when several things are going on at once
+const PRECEDENCE: ActivityKind[] = [
+  "debugging",
+  "testing",
+  "building",
+  "reviewing",
+  "notebook",
+  "terminal",
+  "editing",
+];
+
+const LABELS: { [kind in ActivityKind]: string } = {
+  editing: "Editing",
+  debugging: "Debugging",
+  testing: "Testing",
+  building: "Building",
+  reviewing: "Reviewing changes",
+  terminal: "In the terminal",
+  notebook: "Editing a notebook",
+};
+
+export function getActivityLabel(kind: ActivityKind): string {
+  return LABELS[kind];
+}
+
+function classifyTask(task: vscode.Task): ActivityKind {
+  if (task.group === vscode.TaskGroup.Test || /\btests?\b/i.test(task.name)) {
+    return "testing";
+  }
+  return "building";
+}
+
+function classifyDebugSession(session: vscode.DebugSession): ActivityKind {
+  // Test runners usually launch their debug sessions with a name like "Debug Tests"
+  return /\btests?\b/i.test(session.name) ? "testing" : "debugging";
+}
+
+// Classifies the active editor tab
+function classifyEditor(): ActivityState {
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  if (input instanceof vscode.TabInputTextDiff || input instanceof vscode.TabInputNotebookDiff) {
+    return { kind: "reviewing" };
+  }
+  if (input instanceof vscode.TabInputNotebook) {
+    return { kind: "notebook", name: path.basename(input.uri.path) };
+  }
+  // Cells of notebooks opened in an editor without a tab, e.g. interactive windows
+  const notebook = vscode.window.activeNotebookEditor?.notebook;
+  if (notebook && vscode.window.activeTextEditor?.document.uri.scheme === "vscode-notebook-cell") {
+    return { kind: "notebook", name: path.basename(notebook.uri.path) };
+  }
+  return { kind: "editing" };
+}
+
+/**
+ * Tracks debug sessions and tasks to tell what the user is doing besides
+ * editing. Running sessions and tasks count as activity for idle detection.
+ *
+ * Without a running session or task, the kind follows where the user last
+ * interacted: text editors, diff editors and the Source Control view,
+ * notebooks or the terminal. VS Code doesn't expose terminal keystrokes, so
+ * switching terminals and running commands (with shell integration) are used
+ * instead.
+ */
+export class ActivityTracker implements vscode.Disposable {
+  private __debugSessions = new Map<string, vscode.DebugSession>();
+  private __tasks = new Set<vscode.TaskExecution>();
+  private __foreground: ActivityState = { kind: "editing" };
+  private __state: ActivityState = { kind: "editing" };
+  private __repositories = new Set<Repository>();
+  private __watchingGit = false;
+  private __disposables: vscode.Disposable[] = [];
+  private __onDidChange = new vscode.EventEmitter<ActivityState>();
+  private __onDidInteract = new vscode.EventEmitter<void>();
+  private __onDidChangeBranch = new vscode.EventEmitter<Repository>();
+
+  public readonly onDidChange = this.__onDidChange.event;
+  // Fires whenever the user works in the terminal, a notebook or the Source Control view
+  public readonly onDidInteract = this.__onDidInteract.event;
+  // Fires when a branch is checked out in any repository
+  public readonly onDidChangeBranch = this.__onDidChangeBranch.event;
+
+  constructor() {
+    if (vscode.debug.activeDebugSession) {
+      this.__debugSessions.set(vscode.debug.activeDebugSession.id, vscode.debug.activeDebugSession);
+    }
+    vscode.tasks.taskExecutions.forEach((execution) => this.addTask(execution));
+
+    this.__disposables.push(
+      vscode.debug.onDidStartDebugSession((session) => {
+        this.__debugSessions.set(session.id, session);
+        this.update();
+      }),
+      vscode.debug.onDidTerminateDebugSession((session) => {
+        this.__debugSessions.delete(session.id);
+        this.update();
+      }),
+      vscode.tasks.onDidStartTask((event) => {
+        this.addTask(event.execution);
+        this.update();
+      }),
+      vscode.tasks.onDidEndTask((event) => {
+        this.__tasks.delete(event.execution);
+        this.update();
+      }),
+
+      // Editors
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor) {
+          this.interact(classifyEditor());
+        }
+      }),
+      vscode.window.onDidChangeTextEditorSelection(() => this.interact(classifyEditor())),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        // Ignore changes to documents in the background, e.g. by formatters
+        if (event.contentChanges.length > 0 && event.document === vscode.window.activeTextEditor?.document) {
+          this.interact(classifyEditor());
+        }
+      }),
+      vscode.window.tabGroups.onDidChangeTabs(() => this.interact(classifyEditor())),
+
+      // Notebooks
+      vscode.window.onDidChangeActiveNotebookEditor((editor) => {
+        if (editor) {
+          this.interact(classifyEditor());
+        }
+      }),
+      vscode.window.onDidChangeNotebookEditorSelection(() => this.interact(classifyEditor())),
+      vscode.workspace.onDidChangeNotebookDocument((event) => {
+        if (event.notebook === vscode.window.activeNotebookEditor?.notebook) {
+          this.interact({ kind: "notebook", name: path.basename(event.notebook.uri.path) });
+        }
+      }),
+
+      // Terminal
+      vscode.window.onDidChangeActiveTerminal((terminal) => {
+        if (terminal) {
+          this.interact({ kind: "terminal" });
+        }
+      }),
+      vscode.window.onDidStartTerminalShellExecution(() => this.interact({ kind: "terminal" })),
+
+      // Source Control, the git extension may be activated later
+      vscode.extensions.onDidChange(() => this.watchRepositories())
+    );
+    this.watchRepositories();
+    this.update();
+  }
+
+  public get state(): ActivityState {
+    return this.__state;
+  }
+
+  // Whether a debug session or task is running
+  public get isBusy(): boolean {
+    return this.__debugSessions.size > 0 || this.__tasks.size > 0;
+  }
+
+  public dispose(): void {
+    this.__disposables.forEach((disposable) => disposable.dispose());
+    this.__disposables = [];
+    this.__repositories.clear();
+    this.__onDidChange.dispose();
+    this.__onDidInteract.dispose();
+    this.__onDidChangeBranch.dispose();
+  }
+
+  private interact(state: ActivityState): void {
+    this.__foreground = state;
+    this.__onDidInteract.fire();
+    this.update();
+  }
+
+  private watchRepositories(): void {
+    const api = getGitApi();
+    if (!api || this.__watchingGit) {
+      return;
+    }
+    this.__watchingGit = true;
+    api.repositories.forEach((repository) => this.watchRepository(repository));
+    this.__disposables.push(api.onDidOpenRepository((repository) => this.watchRepository(repository)));
+  }
+
+  private watchRepository(repository: Repository): void {
+    if (this.__repositories.has(repository)) {
+      return;
+    }
+    this.__repositories.add(repository);
+
+    // Staging and unstaging changes happens in the Source Control view
+    let staged = repository.state.indexChanges.length;
+    let branch = repository.state.HEAD?.name;
+    this.__disposables.push(
+      repository.state.onDidChange(() => {
+        if (repository.state.indexChanges.length !== staged) {
+          staged = repository.state.indexChanges.length;
+          this.interact({ kind: "reviewing" });
+        }
+        if (repository.state.HEAD?.name !== branch) {
+          branch = repository.state.HEAD?.name;
+          this.__onDidChangeBranch.fire(repository);
+        }
+      })
+    );
+    if (repository.onDidCommit) {
+      this.__disposables.push(repository.onDidCommit(() => this.interact({ kind: "reviewing" })));
+    }
+  }
+
+  private addTask(execution: vscode.TaskExecution): void {
+    // Watch tasks run all the time, so they don't say anything about activity
+    if (!execution.task.isBackground) {
+      this.__tasks.add(execution);
+    }
+  }
+
+  private update(): void {
+    const candidates: ActivityState[] = [
+      ...[...this.__debugSessions.values()].map((session) => ({
+        kind: classifyDebugSession(session),
+        debugType: session.type,
+        name: session.name,
+      })),
+      ...[...this.__tasks].map((execution) => ({
+        kind: classifyTask(execution.task),
+        name: execution.task.name,
+      })),
+      this.__foreground,
+    ];
+    const [state] = candidates.sort(
+      (a, b) => PRECEDENCE.indexOf(a.kind) - PRECEDENCE.indexOf(b.kind)
+    );
+
+    const changed =
+      state.kind !== this.__state.kind ||
+      state.debugType !== this.__state.debugType ||
+      state.name !== this.__state.name;
+    this.__state = state;
+    if (changed) {
+      this.__onDidChange.fire(state);
+    }
+  }
+}
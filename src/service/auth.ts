@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { isEnterprise } from "./endpoint";
+
+const SCOPES = ["user"];
+const TOKEN_SECRET_KEY = "githubstatus.token";
+const SIGNED_OUT_KEY = "githubstatus.signedOut";
+
+/**
+ * Moves a token stored in the plaintext `githubstatus.token` setting into
+ * secret storage and removes it from the settings.
+ */
+export async function migrateToken(context: vscode.ExtensionContext): Promise<void> {
+  const config = vscode.workspace.getConfiguration("githubstatus");
+  const inspected = config.inspect<string>("token");
+  const token = inspected?.globalValue || inspected?.workspaceValue;
+  if (!token) {
+    return;
+  }
+
+  try {
+    if (!(await context.secrets.get(TOKEN_SECRET_KEY))) {
+      await context.secrets.store(TOKEN_SECRET_KEY, token);
+    }
+    if (inspected?.globalValue) {
+      await config.update("token", undefined, vscode.ConfigurationTarget.Global);
+    }
+    if (inspected?.workspaceValue) {
+      await config.update("token", undefined, vscode.ConfigurationTarget.Workspace);
+    }
+  } catch (error) {
+    console.error("Failed to migrate token:", error);
+  }
+}
+
+/**
+ * Returns a token from the VS Code GitHub session, falling back to a personal
+ * access token kept in secret storage. Only prompts the user to sign in when
+ * `interactive` is set.
+ */
+export async function getToken(
+  context: vscode.ExtensionContext,
+  interactive = false
+): Promise<string | undefined> {
+  if (interactive) {
+    await context.globalState.update(SIGNED_OUT_KEY, false);
+  }
+
+  if (!context.globalState.get<boolean>(SIGNED_OUT_KEY)) {
+    try {
+      // The GitHub Enterprise provider signs in to the server in `github-enterprise.uri`
+      const session = await vscode.authentication.getSession(
+        isEnterprise() ? "github-enterprise" : "github",
+        SCOPES,
+        interactive ? { createIfNone: true } : { silent: true }
+      );
+      if (session) {
+        return session.accessToken;
+      }
+    } catch (error) {
+      console.error("Failed to get GitHub session:", error);
+    }
+  }
+
+  return context.secrets.get(TOKEN_SECRET_KEY);
+}
+
+export async function storeToken(context: vscode.ExtensionContext, token: string): Promise<void> {
+  await context.secrets.store(TOKEN_SECRET_KEY, token);
+}
+
+/**
+ * Forgets the stored access token and stops using the VS Code GitHub session
+ * until the user signs in again.
+ */
+export async function signOut(context: vscode.ExtensionContext): Promise<void> {
+  await context.secrets.delete(TOKEN_SECRET_KEY);
+  await context.globalState.update(SIGNED_OUT_KEY, true);
+}
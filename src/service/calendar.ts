@@ -0,0 +1,261 @@
+import * as fs from "fs";
+import { getWallTime } from "./schedule";
+
+export interface CalendarEvent {
+  summary: string;
+  start: Date;
+  end: Date;
+}
+
+interface Recurrence {
+  freq: "DAILY" | "WEEKLY";
+  interval: number;
+  until?: Date;
+  count?: number;
+  // 0 = Sunday
+  byDay?: number[];
+}
+
+export interface ParsedEvent extends CalendarEvent {
+  recurrence?: Recurrence;
+  exceptions: number[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Stop expanding recurrences after this many occurrences
+const MAX_OCCURRENCES = 5000;
+
+/**
+ * Converts a date and time in the given time zone to a UTC date.
+ */
+function fromZonedTime(
+  year: number, month: number, day: number, hour: number, minute: number, second: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetAt = (time: number) => {
+    const wall = getWallTime(new Date(time), timezone);
+    return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - time;
+  };
+  const first = guess - offsetAt(guess);
+  // Correct for daylight saving time changes between the guess and the result
+  return new Date(guess - offsetAt(first));
+}
+
+/**
+ * Parses ICS date values such as `20261019T130000Z`, `20261019T150000` with a
+ * TZID parameter, or `20261019` for all-day events.
+ */
+function parseDate(value: string, params: { [key: string]: string }): Date | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number(part ?? 0));
+
+  if (match[7]) {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+  if (params.TZID) {
+    return fromZonedTime(year, month, day, hour, minute, second, params.TZID);
+  }
+  // Floating time, interpreted in the local time zone
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+function parseRecurrence(value: string): Recurrence | undefined {
+  const parts: { [key: string]: string } = {};
+  value.split(";").forEach((part) => {
+    const [key, val] = part.split("=");
+    parts[key.toUpperCase()] = val;
+  });
+  if (parts.FREQ !== "DAILY" && parts.FREQ !== "WEEKLY") {
+    return undefined;
+  }
+
+  return {
+    freq: parts.FREQ,
+    interval: Number(parts.INTERVAL) || 1,
+    until: parts.UNTIL ? parseDate(parts.UNTIL, {}) : undefined,
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    byDay: parts.BYDAY
+      ? parts.BYDAY.split(",")
+        .map((day) => WEEKDAYS.indexOf(day.slice(-2)))
+        .filter((day) => day !== -1)
+      : undefined,
+  };
+}
+
+/**
+ * Parses the timed events of an ICS calendar. All-day events are ignored,
+ * daily and weekly recurrences are supported.
+ */
+export function parseIcs(content: string): ParsedEvent[] {
+  // Unfold continuation lines
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedEvent[] = [];
+  let current: { [key: string]: { value: string; params: { [key: string]: string } }[] } | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (line === "END:VEVENT" && current) {
+      const event = current;
+      current = null;
+
+      const first = (name: string) => event[name]?.[0];
+      const startProp = first("DTSTART");
+      if (!startProp || startProp.params.VALUE === "DATE" || /^\d{8}$/.test(startProp.value)) {
+        continue;
+      }
+      if (first("STATUS")?.value === "CANCELLED") {
+        continue;
+      }
+      const start = parseDate(startProp.value, startProp.params);
+      const endProp = first("DTEND");
+      let end = endProp ? parseDate(endProp.value, endProp.params) : undefined;
+      if (!end && start) {
+        const duration = first("DURATION")?.value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+        if (duration) {
+          end = new Date(start.getTime() + (Number(duration[1] ?? 0) * 60 + Number(duration[2] ?? 0)) * 60000);
+        }
+      }
+      if (!start || !end) {
+        continue;
+      }
+
+      const exceptions: number[] = [];
+      (event.EXDATE ?? []).forEach((prop) =>
+        prop.value.split(",").forEach((value) => {
+          const date = parseDate(value, prop.params);
+          if (date) {
+            exceptions.push(date.getTime());
+          }
+        })
+      );
+
+      const rule = first("RRULE");
+      events.push({
+        summary: first("SUMMARY")?.value.replace(/\\([,;\\])/g, "$1").replace(/\\n/gi, " ") ?? "",
+        start,
+        end,
+        recurrence: rule ? parseRecurrence(rule.value) : undefined,
+        exceptions,
+      });
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const [name, ...rawParams] = line.slice(0, separator).split(";");
+    const params: { [key: string]: string } = {};
+    rawParams.forEach((param) => {
+      const [key, value] = param.split("=");
+      params[key.toUpperCase()] = (value ?? "").replace(/^"|"$/g, "");
+    });
+    const key = name.toUpperCase();
+    (current[key] = current[key] ?? []).push({ value: line.slice(separator + 1), params });
+  }
+
+  return events;
+}
+
+/**
+ * Returns the occurrence of `event` that is running at `now`, if any.
+ */
+function findOccurrence(event: ParsedEvent, now: number): CalendarEvent | undefined {
+  const length = event.end.getTime() - event.start.getTime();
+  const running = (start: number) =>
+    start <= now && now < start + length && !event.exceptions.includes(start);
+
+  const recurrence = event.recurrence;
+  if (!recurrence) {
+    return running(event.start.getTime()) ? event : undefined;
+  }
+
+  const step = (recurrence.freq === "DAILY" ? 1 : 7) * recurrence.interval;
+  const days = recurrence.freq === "WEEKLY" && recurrence.byDay?.length
+    ? recurrence.byDay
+    : [event.start.getDay()];
+  const until = recurrence.until?.getTime() ?? Infinity;
+  let count = 0;
+
+  for (let period = 0; period < MAX_OCCURRENCES; period++) {
+    // Step in local days so occurrences keep their time across DST changes
+    const periodDate = new Date(event.start.getTime());
+    periodDate.setDate(periodDate.getDate() + period * step);
+    const periodStart = periodDate.getTime();
+    if (periodStart - 7 * DAY > now || periodStart - 7 * DAY > until) {
+      break;
+    }
+
+    const starts = recurrence.freq === "WEEKLY"
+      ? days
+        .map((day) => {
+          // Same time of day on the other weekdays of this week
+          const date = new Date(periodStart);
+          date.setDate(date.getDate() + ((day - event.start.getDay() + 7) % 7));
+          return date.getTime();
+        })
+        .sort((a, b) => a - b)
+      : [periodStart];
+
+    for (const start of starts) {
+      if (start > until || (recurrence.count !== undefined && count >= recurrence.count)) {
+        return undefined;
+      }
+      count++;
+      if (running(start)) {
+        return { summary: event.summary, start: new Date(start), end: new Date(start + length) };
+      }
+    }
+  }
+  return undefined;
+}
+
+export function getCurrentEvent(events: ParsedEvent[], now = Date.now()): CalendarEvent | undefined {
+  return events
+    .map((event) => findOccurrence(event, now))
+    .filter((event): event is CalendarEvent => !!event)
+    .sort((a, b) => b.end.getTime() - a.end.getTime())[0];
+}
+
+/**
+ * Reads an ICS file and keeps the parsed events until the file changes.
+ */
+export class Calendar {
+  private __file: string;
+  private __events: ParsedEvent[] = [];
+  private __modified = 0;
+
+  constructor(file: string) {
+    this.__file = file;
+  }
+
+  public get file(): string {
+    return this.__file;
+  }
+
+  public async getCurrentEvent(now = Date.now()): Promise<CalendarEvent | undefined> {
+    try {
+      const stats = await fs.promises.stat(this.__file);
+      if (stats.mtimeMs !== this.__modified) {
+        this.__events = parseIcs(await fs.promises.readFile(this.__file, "utf8"));
+        this.__modified = stats.mtimeMs;
+      }
+    } catch (error) {
+      console.error(`Failed to read calendar ${this.__file}:`, error);
+      this.__events = [];
+      this.__modified = 0;
+    }
+    return getCurrentEvent(this.__events, now);
+  }
+}
@@ -0,0 +1,278 @@
+import * as vscode from "vscode";
+import { getIncludedFolders, getWorkspaceName } from "./filter";
+import type { StatusTrigger } from "./history";
+import type { SyncStateChange } from "./sync";
+
+/**
+ * - inactive: not started yet, or stopped when the extension shuts down
+ * - active: posting the status on every interval
+ * - idle: the idle status was posted, waiting for the user to come back
+ * - blacklisted: every workspace folder is excluded
+ * - paused: deactivated by the user
+ * - error: signed out, or GitHub rejected the token
+ */
+export type ControllerState = "inactive" | "active" | "idle" | "blacklisted" | "paused" | "error";
+
+// The parts of GitHubService the controller drives
+export interface StatusTarget {
+  readonly onDidChangeSyncState: vscode.Event<SyncStateChange>;
+  authenticate(): Promise<boolean>;
+  captureStatus(): Promise<void>;
+  setWorkspace(name: string | undefined, folders: readonly vscode.WorkspaceFolder[]): Promise<void>;
+  updateStatus(workspace: string, trigger?: StatusTrigger): Promise<void>;
+  setIdle(): Promise<void>;
+  clearIdle(): void;
+  resetActivity(): void;
+  setDefault(): Promise<void>;
+}
+
+export interface StatusControllerOptions {
+  // Events that count as user activity besides focusing the window
+  activity?: vscode.Event<unknown>[];
+  // Keeps the user from going idle, e.g. while a debug session is running
+  isBusy?: () => boolean;
+  // Whether this window posts the status when several windows are open
+  isLeader?: () => boolean;
+  getFolders?: () => Promise<readonly vscode.WorkspaceFolder[]>;
+  // Injectable for tests, in milliseconds. Read from the settings otherwise.
+  interval?: number;
+  idleTimeout?: number;
+}
+
+/**
+ * Decides when the status is posted. Owns the update timer and the idle
+ * timer, and moves between the states above as the user works, goes away,
+ * deactivates the extension or changes its settings.
+ */
+export class StatusController implements vscode.Disposable {
+  private __service: StatusTarget;
+  private __options: StatusControllerOptions;
+  private __state: ControllerState = "inactive";
+  private __workspace?: string;
+  private __timer: NodeJS.Timeout | null = null;
+  private __idleTimer: NodeJS.Timeout | null = null;
+  // When the timers fire next, in milliseconds since the epoch
+  private __nextUpdate?: number;
+  private __idleAt?: number;
+  // Incremented by every transition, so a slow start can tell it was overtaken
+  private __generation = 0;
+  private __disposables: vscode.Disposable[] = [];
+  private __onDidChangeState = new vscode.EventEmitter<ControllerState>();
+
+  public readonly onDidChangeState = this.__onDidChangeState.event;
+
+  constructor(service: StatusTarget, options: StatusControllerOptions = {}) {
+    this.__service = service;
+    this.__options = options;
+
+    this.__disposables.push(
+      vscode.window.onDidChangeWindowState((state) => {
+        if (state.focused) {
+          this.notifyActivity();
+        }
+      }),
+      // Scrolling through code counts as activity too
+      vscode.window.onDidChangeTextEditorVisibleRanges(() => this.notifyActivity()),
+      ...(options.activity ?? []).map((event) => event(() => this.notifyActivity())),
+      service.onDidChangeSyncState((change) => {
+        if (change.state === "unauthorized" && this.isSyncing) {
+          this.__generation++;
+          this.clearTimers();
+          this.setState("error");
+        }
+      })
+    );
+  }
+
+  public get state(): ControllerState {
+    return this.__state;
+  }
+
+  // Whether statuses are being posted, idle or not
+  public get isSyncing(): boolean {
+    return this.__state === "active" || this.__state === "idle";
+  }
+
+  // Time of the next scheduled update
+  public get nextUpdate(): Date | undefined {
+    return this.__nextUpdate === undefined ? undefined : new Date(this.__nextUpdate);
+  }
+
+  // Time the user goes idle without further activity
+  public get idleAt(): Date | undefined {
+    return this.__idleAt === undefined ? undefined : new Date(this.__idleAt);
+  }
+
+  /**
+   * (Re)starts syncing: checks the blacklist, signs in and posts the status.
+   * Ends up active, blacklisted or in the error state when signed out.
+   */
+  public async start(trigger: StatusTrigger = "start"): Promise<ControllerState> {
+    const generation = ++this.__generation;
+    const wasSyncing = this.isSyncing;
+    this.clearTimers();
+
+    const folders = await (this.__options.getFolders ?? getIncludedFolders)();
+    const workspace = getWorkspaceName(folders);
+    if (generation !== this.__generation) {
+      return this.__state;
+    }
+    if (folders.length === 0 || !workspace) {
+      await this.leave(wasSyncing);
+      return this.setState("blacklisted");
+    }
+
+    try {
+      if (!(await this.__service.authenticate())) {
+        return generation === this.__generation ? this.setState("error") : this.__state;
+      }
+      await this.__service.captureStatus();
+      await this.__service.setWorkspace(workspace, folders);
+    } catch (error) {
+      console.error("Failed to start GitHub Status:", error);
+      return generation === this.__generation ? this.setState("error") : this.__state;
+    }
+    if (generation !== this.__generation) {
+      return this.__state;
+    }
+
+    this.__workspace = workspace;
+    this.__service.resetActivity();
+    this.setState("active");
+    this.startTimers();
+    await this.__service.updateStatus(workspace, trigger);
+    return this.__state;
+  }
+
+  // Stops posting and sets the default status until `resume` is called
+  public async pause(): Promise<void> {
+    if (!this.isSyncing) {
+      return;
+    }
+    this.__generation++;
+    this.clearTimers();
+    this.setState("paused");
+    await this.leave(true);
+  }
+
+  public async resume(): Promise<ControllerState> {
+    if (this.__state !== "paused") {
+      return this.__state;
+    }
+    return this.start("manual");
+  }
+
+  /**
+   * Applies changed settings such as the blacklist or the interval. A paused
+   * controller stays paused unless every folder is excluded now.
+   */
+  public async reconfigure(): Promise<ControllerState> {
+    if (this.__state === "inactive") {
+      return this.__state;
+    }
+    if (this.__state === "paused") {
+      const generation = ++this.__generation;
+      const folders = await (this.__options.getFolders ?? getIncludedFolders)();
+      if (generation === this.__generation && folders.length === 0) {
+        this.setState("blacklisted");
+      }
+      return this.__state;
+    }
+    return this.start();
+  }
+
+  // Leaves idle, or pushes the idle timeout back while active
+  public notifyActivity(): void {
+    if (this.__state === "idle") {
+      this.setState("active");
+      this.__service.clearIdle();
+      this.startIdleTimer();
+      if (this.__workspace) {
+        this.__service.updateStatus(this.__workspace, "activity");
+      }
+    } else if (this.__state === "active") {
+      this.startIdleTimer();
+    }
+  }
+
+  // Stops all timers without touching the status, e.g. on shutdown
+  public stop(): void {
+    this.__generation++;
+    this.clearTimers();
+    this.__service.resetActivity();
+    this.setState("inactive");
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.__disposables.forEach((disposable) => disposable.dispose());
+    this.__disposables = [];
+    this.__onDidChangeState.dispose();
+  }
+
+  private setState(state: ControllerState): ControllerState {
+    if (this.__state !== state) {
+      this.__state = state;
+      this.__onDidChangeState.fire(state);
+    }
+    return state;
+  }
+
+  // Puts back the default status when leaving a syncing state, unless another
+  // window is posting the status
+  private async leave(wasSyncing: boolean): Promise<void> {
+    if (wasSyncing && (this.__options.isLeader?.() ?? true)) {
+      await this.__service.setDefault();
+    }
+    this.__service.resetActivity();
+  }
+
+  private startTimers(): void {
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const interval = this.__options.interval ?? (config.get<number>("interval") ?? 5) * 60000;
+    this.__nextUpdate = Date.now() + interval;
+    this.__timer = setInterval(() => {
+      this.__nextUpdate = Date.now() + interval;
+      // Meetings and focus sessions are still posted while idle
+      if (this.isSyncing && this.__workspace) {
+        this.__service.updateStatus(this.__workspace, "interval");
+      }
+    }, interval);
+    this.startIdleTimer();
+  }
+
+  private startIdleTimer(): void {
+    if (this.__idleTimer) {
+      clearTimeout(this.__idleTimer);
+    }
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const timeout = this.__options.idleTimeout ?? (config.get<number>("idleTimeout") ?? 15) * 60000;
+    this.__idleAt = Date.now() + timeout;
+    this.__idleTimer = setTimeout(() => {
+      this.__idleTimer = null;
+      this.__idleAt = undefined;
+      if (this.__state !== "active") {
+        return;
+      }
+      if (this.__options.isBusy?.()) {
+        this.startIdleTimer();
+        return;
+      }
+      this.setState("idle");
+      this.__service.setIdle();
+    }, timeout);
+  }
+
+  private clearTimers(): void {
+    if (this.__timer) {
+      clearInterval(this.__timer);
+      this.__timer = null;
+    }
+    if (this.__idleTimer) {
+      clearTimeout(this.__idleTimer);
+      this.__idleTimer = null;
+    }
+    this.__nextUpdate = undefined;
+    this.__idleAt = undefined;
+  }
+}
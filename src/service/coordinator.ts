@@ -0,0 +1,213 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+const STATE_FILE = "windows.json";
+const HEARTBEAT_INTERVAL = 10 * 1000;
+// Windows that haven't sent a heartbeat for this long are considered closed
+const STALE_AFTER = 3 * HEARTBEAT_INTERVAL;
+const LOCK_RETRY_DELAY = 20;
+// A lock this old was left behind by a window that crashed while holding it
+const LOCK_STALE_AFTER = 5 * 1000;
+
+interface WindowEntry {
+  lastSeen: number;
+  focusedAt: number;
+}
+
+interface CoordinatorState {
+  leader: string | null;
+  windows: { [id: string]: WindowEntry };
+}
+
+// The stored leader while its window is open, else the most recently focused window
+function getLeader(state: CoordinatorState, now: number): string | null {
+  const open = Object.keys(state.windows).filter((id) => now - state.windows[id].lastSeen <= STALE_AFTER);
+  if (state.leader && open.includes(state.leader)) {
+    return state.leader;
+  }
+  const [next] = open.sort((a, b) => state.windows[b].focusedAt - state.windows[a].focusedAt);
+  return next ?? null;
+}
+
+/**
+ * Elects a single window to post the GitHub status when several VS Code
+ * windows are open. The most recently focused window becomes the leader,
+ * shared state is kept in a file in the global storage folder and refreshed
+ * with a heartbeat so a new leader takes over when the current one goes away.
+ * Windows run in separate processes, so every change to the file is made while
+ * holding a lock file.
+ */
+export class WindowCoordinator implements vscode.Disposable {
+  private __id = `${process.pid}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private __file: string;
+  private __isLeader = false;
+  private __heartbeat: NodeJS.Timeout | null = null;
+  private __disposables: vscode.Disposable[] = [];
+  private __onDidChangeLeadership = new vscode.EventEmitter<boolean>();
+  // Serializes reads and writes of the state file within this window, the
+  // lock file serializes them between windows
+  private __queue: Promise<unknown> = Promise.resolve();
+
+  public readonly onDidChangeLeadership = this.__onDidChangeLeadership.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.__file = path.join(context.globalStorageUri.fsPath, STATE_FILE);
+  }
+
+  public get isLeader(): boolean {
+    return this.__isLeader;
+  }
+
+  public async join(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.__file), { recursive: true });
+    await (vscode.window.state.focused ? this.focus() : this.heartbeat());
+
+    this.__heartbeat = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL);
+    this.__disposables.push(
+      vscode.window.onDidChangeWindowState((state) => {
+        if (state.focused) {
+          this.focus();
+        }
+      })
+    );
+  }
+
+  /**
+   * Makes this window the leader.
+   */
+  public focus(): Promise<void> {
+    return this.update((state, now) => {
+      this.removeStale(state, now);
+      state.windows[this.__id] = { lastSeen: now, focusedAt: now };
+      state.leader = this.__id;
+    });
+  }
+
+  /**
+   * Marks this window as still open and picks up leadership changes made by
+   * other windows. Only changes this window's entry, the leader is written
+   * when a window is focused or closed.
+   */
+  public heartbeat(): Promise<void> {
+    return this.update((state, now) => {
+      state.windows[this.__id] = { lastSeen: now, focusedAt: state.windows[this.__id]?.focusedAt ?? 0 };
+    });
+  }
+
+  /**
+   * Removes this window from the shared state and hands leadership to the
+   * most recently focused remaining window. Resolves to `true` when no other
+   * window is left to keep the status up to date.
+   */
+  public async leave(): Promise<boolean> {
+    this.dispose();
+
+    return this.transaction((state) => {
+      const now = Date.now();
+      delete state.windows[this.__id];
+      this.removeStale(state, now);
+      state.leader = getLeader(state, now);
+      this.__isLeader = false;
+      return Object.keys(state.windows).length === 0;
+    }).catch((error) => {
+      console.error("Failed to leave window coordination:", error);
+      return true;
+    });
+  }
+
+  public dispose(): void {
+    if (this.__heartbeat) {
+      clearInterval(this.__heartbeat);
+      this.__heartbeat = null;
+    }
+    this.__disposables.forEach((disposable) => disposable.dispose());
+    this.__disposables = [];
+    this.__onDidChangeLeadership.dispose();
+  }
+
+  private async update(change: (state: CoordinatorState, now: number) => void): Promise<void> {
+    try {
+      await this.transaction((state) => {
+        const now = Date.now();
+        change(state, now);
+        this.setLeader(getLeader(state, now) === this.__id);
+      });
+    } catch (error) {
+      console.error("Failed to update window coordination:", error);
+    }
+  }
+
+  private removeStale(state: CoordinatorState, now: number): void {
+    Object.keys(state.windows).forEach((id) => {
+      if (now - state.windows[id].lastSeen > STALE_AFTER) {
+        delete state.windows[id];
+      }
+    });
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (this.__isLeader !== isLeader) {
+      this.__isLeader = isLeader;
+      this.__onDidChangeLeadership.fire(isLeader);
+    }
+  }
+
+  private transaction<T>(change: (state: CoordinatorState) => T): Promise<T> {
+    const run = this.__queue.then(async () => {
+      const unlock = await this.lock();
+      try {
+        const state = await this.read();
+        const result = change(state);
+        await this.write(state);
+        return result;
+      } finally {
+        await unlock();
+      }
+    });
+    this.__queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Creates the lock file, waiting while another window holds it. Resolves to
+   * a function that removes it again.
+   */
+  private async lock(): Promise<() => Promise<void>> {
+    const file = `${this.__file}.lock`;
+    for (;;) {
+      try {
+        await (await fs.promises.open(file, "wx")).close();
+        return () => fs.promises.unlink(file).catch(() => undefined);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const stat = await fs.promises.stat(file).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_AFTER) {
+        await fs.promises.unlink(file).catch(() => undefined);
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_DELAY));
+      }
+    }
+  }
+
+  private async read(): Promise<CoordinatorState> {
+    try {
+      const content = await fs.promises.readFile(this.__file, "utf8");
+      const state = JSON.parse(content) as CoordinatorState;
+      return { leader: state.leader ?? null, windows: state.windows ?? {} };
+    } catch (error) {
+      return { leader: null, windows: {} };
+    }
+  }
+
+  private async write(state: CoordinatorState): Promise<void> {
+    // Write to a temporary file first so other windows never read a partial file
+    const temp = `${this.__file}.${this.__id}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(state), "utf8");
+    await fs.promises.rename(temp, this.__file);
+  }
+}
@@ -0,0 +1,144 @@
+import * as vscode from "vscode";
+import { EmojiInfo, findEmoji } from "./emoji";
+import { messageLength, STATUS_MESSAGE_LIMIT } from "./template";
+
+const PRESETS_KEY = "githubstatus.customPresets";
+
+// Longest expiry in minutes accepted from other tools, a week
+export const MAX_CUSTOM_MINUTES = 7 * 24 * 60;
+
+// When a custom status is cleared
+export type CustomExpiry =
+  | { kind: "minutes"; minutes: number }
+  | { kind: "endOfDay" }
+  // Local time as HH:MM, tomorrow when it has already passed today
+  | { kind: "time"; time: string }
+  | { kind: "never" };
+
+export interface CustomStatus {
+  message: string;
+  // Emoji name without colons
+  emoji?: string;
+  busy: boolean;
+  expiry: CustomExpiry;
+}
+
+export interface CustomPreset extends CustomStatus {
+  name: string;
+}
+
+export function parseTime(value: string): { hour: number; minute: number } | undefined {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return undefined;
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+/**
+ * Returns when a custom status set at `now` expires, or undefined if it
+ * doesn't expire.
+ */
+export function getExpiryDate(expiry: CustomExpiry, now = new Date()): Date | undefined {
+  switch (expiry.kind) {
+    case "minutes":
+      return new Date(now.getTime() + expiry.minutes * 60000);
+    case "endOfDay": {
+      const end = new Date(now);
+      end.setHours(24, 0, 0, 0);
+      return end;
+    }
+    case "time": {
+      const time = parseTime(expiry.time);
+      if (!time) {
+        return undefined;
+      }
+      const date = new Date(now);
+      date.setHours(time.hour, time.minute, 0, 0);
+      if (date.getTime() <= now.getTime()) {
+        date.setDate(date.getDate() + 1);
+      }
+      return date;
+    }
+    case "never":
+      return undefined;
+  }
+}
+
+export function validateMessage(message: string): string | undefined {
+  return messageLength(message) > STATUS_MESSAGE_LIMIT
+    ? `GitHub limits status messages to ${STATUS_MESSAGE_LIMIT} characters`
+    : undefined;
+}
+
+/**
+ * Checks a custom status set by other extensions or through a URI, returns
+ * why it is rejected or undefined if it is valid.
+ */
+export function validateCustomStatus(status: CustomStatus, emojis: EmojiInfo[]): string | undefined {
+  if (!status.message.trim() && !status.emoji) {
+    return "A status needs a message or an emoji";
+  }
+  const messageError = validateMessage(status.message);
+  if (messageError) {
+    return messageError;
+  }
+  if (status.emoji && !findEmoji(emojis, status.emoji)) {
+    return `Unknown emoji :${status.emoji}:`;
+  }
+  if (
+    status.expiry.kind === "minutes" &&
+    (!Number.isInteger(status.expiry.minutes) ||
+      status.expiry.minutes < 1 ||
+      status.expiry.minutes > MAX_CUSTOM_MINUTES)
+  ) {
+    return `Minutes must be a whole number between 1 and ${MAX_CUSTOM_MINUTES}`;
+  }
+  if (status.expiry.kind === "time" && !parseTime(status.expiry.time)) {
+    return `Invalid time ${status.expiry.time}, use HH:MM`;
+  }
+  return undefined;
+}
+
+export function describeExpiry(expiry: CustomExpiry): string {
+  switch (expiry.kind) {
+    case "minutes":
+      return expiry.minutes % 60 === 0
+        ? `${expiry.minutes / 60} ${expiry.minutes === 60 ? "hour" : "hours"}`
+        : `${expiry.minutes} min`;
+    case "endOfDay":
+      return "until end of day";
+    case "time":
+      return `until ${expiry.time}`;
+    case "never":
+      return "until cleared";
+  }
+}
+
+/**
+ * Custom statuses saved for later, kept in the global state.
+ */
+export class CustomPresets {
+  private __context: vscode.ExtensionContext;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.__context = context;
+  }
+
+  public get all(): CustomPreset[] {
+    return this.__context.globalState.get<CustomPreset[]>(PRESETS_KEY) ?? [];
+  }
+
+  // Replaces a preset with the same name
+  public async save(preset: CustomPreset): Promise<void> {
+    const presets = this.all.filter((other) => other.name !== preset.name);
+    await this.__context.globalState.update(PRESETS_KEY, [...presets, preset]);
+  }
+
+  public async delete(name: string): Promise<void> {
+    await this.__context.globalState.update(
+      PRESETS_KEY,
+      this.all.filter((preset) => preset.name !== name)
+    );
+  }
+}
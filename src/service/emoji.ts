@@ -0,0 +1,152 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+const CATALOG_FILE = path.join(__dirname, "..", "..", "resources", "emojis.json");
+const RECENT_KEY = "githubstatus.recentEmojis";
+const FAVORITES_KEY = "githubstatus.favoriteEmojis";
+const MAX_RECENT = 8;
+// Category of emojis that only exist on GitHub, such as :octocat:
+export const CUSTOM_CATEGORY = "GitHub";
+// Category of emojis newer than the catalogue
+const OTHER_CATEGORY = "Other";
+
+export interface EmojiInfo {
+  name: string;
+  // Other shortcodes of the same emoji, e.g. thumbsup for +1
+  aliases: string[];
+  // Missing for custom emojis
+  unicode?: string;
+  category: string;
+  keywords: string[];
+  // Image of custom emojis
+  url?: string;
+}
+
+interface CatalogEntry {
+  names: string[];
+  unicode: string;
+  category: string;
+  keywords: string[];
+}
+
+let catalog: EmojiInfo[] | undefined;
+
+/**
+ * Returns the bundled emoji catalogue (resources/emojis.json, generated from
+ * gemoji by scripts/generate-emojis.mjs).
+ */
+export function getEmojiCatalog(): EmojiInfo[] {
+  if (!catalog) {
+    try {
+      const entries = JSON.parse(fs.readFileSync(CATALOG_FILE, "utf8")) as CatalogEntry[];
+      catalog = entries.map((entry) => ({
+        name: entry.names[0],
+        aliases: entry.names.slice(1),
+        unicode: entry.unicode,
+        category: entry.category,
+        keywords: entry.keywords,
+      }));
+    } catch (error) {
+      // Reading again won't help, the status bar asks for emojis every second
+      console.error("Failed to read emoji catalogue:", error);
+      catalog = [];
+    }
+  }
+  return catalog;
+}
+
+/**
+ * Combines the catalogue with the emojis of the GitHub API. Emojis the API
+ * doesn't know are left out, emojis only the API knows are added as custom
+ * emojis. Without API emojis the whole catalogue is used.
+ */
+export function mergeEmojis(catalogue: EmojiInfo[], remote: { [name: string]: string }): EmojiInfo[] {
+  const names = Object.keys(remote);
+  if (names.length === 0) {
+    return catalogue;
+  }
+
+  const known = new Set<string>();
+  const emojis = catalogue.filter((emoji) => {
+    const available = [emoji.name, ...emoji.aliases].some((name) => name in remote);
+    if (available) {
+      [emoji.name, ...emoji.aliases].forEach((name) => known.add(name));
+    }
+    return available;
+  });
+  const extra = names
+    .filter((name) => !known.has(name))
+    .sort()
+    .map((name) => {
+      const unicode = getUnicode(remote[name]);
+      return unicode
+        ? { name, aliases: [], unicode, category: OTHER_CATEGORY, keywords: [] }
+        : { name, aliases: [], category: CUSTOM_CATEGORY, keywords: [], url: remote[name] };
+    });
+  return [...emojis, ...extra];
+}
+
+// Emoji URLs look like .../unicode/1f468-200d-1f4bb.png?v8
+function getUnicode(url: string): string | undefined {
+  const match = url.match(/\/unicode\/([0-9a-f-]+)\.png/i);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return match[1]
+      .split("-")
+      .map((code) => String.fromCodePoint(parseInt(code, 16)))
+      .join("");
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export function findEmoji(emojis: EmojiInfo[], name: string): EmojiInfo | undefined {
+  return emojis.find((emoji) => emoji.name === name || emoji.aliases.includes(name));
+}
+
+/**
+ * Returns the unicode form of a shortcode such as `:rocket:`, if it has one.
+ */
+export function getEmojiUnicode(shortcode: string): string | undefined {
+  return findEmoji(getEmojiCatalog(), shortcode.replace(/^:|:$/g, ""))?.unicode;
+}
+
+/**
+ * Remembers recently used and favourite emojis, in the global state when
+ * there is an extension context.
+ */
+export class EmojiPreferences {
+  private __context?: vscode.ExtensionContext;
+  private __recent: string[];
+  private __favorites: string[];
+
+  constructor(context?: vscode.ExtensionContext) {
+    this.__context = context;
+    this.__recent = context?.globalState.get<string[]>(RECENT_KEY) ?? [];
+    this.__favorites = context?.globalState.get<string[]>(FAVORITES_KEY) ?? [];
+  }
+
+  // Newest first
+  public get recent(): readonly string[] {
+    return this.__recent;
+  }
+
+  public get favorites(): readonly string[] {
+    return this.__favorites;
+  }
+
+  public async addRecent(name: string): Promise<void> {
+    this.__recent = [name, ...this.__recent.filter((other) => other !== name)].slice(0, MAX_RECENT);
+    await this.__context?.globalState.update(RECENT_KEY, this.__recent);
+  }
+
+  public async toggleFavorite(name: string): Promise<void> {
+    this.__favorites = this.__favorites.includes(name)
+      ? this.__favorites.filter((other) => other !== name)
+      : [...this.__favorites, name];
+    await this.__context?.globalState.update(FAVORITES_KEY, this.__favorites);
+  }
+}
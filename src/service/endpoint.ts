@@ -0,0 +1,35 @@
+import * as vscode from "vscode";
+
+const DEFAULT_API_BASE_URL = "https://api.github.com";
+
+/**
+ * Returns the REST API base URL, e.g. `https://github.acme.com/api/v3` for
+ * GitHub Enterprise Server. GraphQL requests derive their URL from it.
+ */
+export function getApiBaseUrl(): string {
+  const setting = vscode.workspace.getConfiguration("githubstatus").get<string>("apiBaseUrl");
+  return (setting || DEFAULT_API_BASE_URL).trim().replace(/\/+$/, "");
+}
+
+export function isEnterprise(baseUrl = getApiBaseUrl()): boolean {
+  return baseUrl !== DEFAULT_API_BASE_URL;
+}
+
+/**
+ * Returns the web URL belonging to an API base URL, e.g. `https://github.com`
+ * for `https://api.github.com`.
+ */
+export function getWebUrl(baseUrl = getApiBaseUrl()): string {
+  try {
+    const url = new URL(baseUrl);
+    return `${url.protocol}//${url.host.replace(/^api\./, "")}`;
+  } catch (error) {
+    console.error(`Invalid API base URL ${baseUrl}:`, error);
+    return "https://github.com";
+  }
+}
+
+// Host name as it appears in normalized remote URLs, e.g. github.com
+export function getWebHost(baseUrl = getApiBaseUrl()): string {
+  return getWebUrl(baseUrl).replace(/^[a-z]+:\/\//i, "");
+}
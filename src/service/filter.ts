@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { getRemoteUrls, normalizeRemoteUrl } from "./git";
+
+export type ListMode = "blacklist" | "allowlist";
+
+export interface FolderState {
+  folder: vscode.WorkspaceFolder;
+  excluded: boolean;
+  // Entries of the active list that match this folder
+  matches: string[];
+}
+
+const toPosix = (value: string) => value.replace(/\\/g, "/");
+
+function expandHome(pattern: string): string {
+  return pattern === "~" || pattern.startsWith("~/") || pattern.startsWith("~\\")
+    ? path.join(os.homedir(), pattern.slice(1))
+    : pattern;
+}
+
+/**
+ * Matches a list entry against a folder. Entries can be exact paths, glob
+ * patterns such as `~/work/clients/**` or remote URL patterns such as
+ * `github.com/acme/*`.
+ */
+export function matchesEntry(entry: string, folderPath: string, remotes: string[]): boolean {
+  const options = { dot: true, nocase: process.platform === "win32" };
+  const pattern = toPosix(expandHome(entry.trim()));
+  const folder = toPosix(folderPath);
+
+  if (pattern === folder || minimatch(folder, pattern, options)) {
+    return true;
+  }
+  // Also match the folder itself for patterns like `~/work/clients/acme/**`
+  if (pattern.endsWith("/**") && minimatch(folder, pattern.slice(0, -3), options)) {
+    return true;
+  }
+
+  const remotePattern = normalizeRemoteUrl(entry);
+  return remotes
+    .map(normalizeRemoteUrl)
+    .some((remote) => remote === remotePattern || minimatch(remote, remotePattern, { nocase: true }));
+}
+
+export function getListMode(): ListMode {
+  return vscode.workspace.getConfiguration("githubstatus").get<ListMode>("listMode") || "blacklist";
+}
+
+export function getList(mode = getListMode()): string[] {
+  return vscode.workspace.getConfiguration("githubstatus").get<string[]>(mode) || [];
+}
+
+export async function getFolderStates(): Promise<FolderState[]> {
+  const mode = getListMode();
+  const list = getList(mode);
+
+  return Promise.all(
+    (vscode.workspace.workspaceFolders || []).map(async (folder) => {
+      const remotes = await getRemoteUrls(folder.uri);
+      const matches = list.filter((entry) => matchesEntry(entry, folder.uri.fsPath, remotes));
+      const excluded = mode === "allowlist" ? matches.length === 0 : matches.length > 0;
+      return { folder, excluded, matches };
+    })
+  );
+}
+
+/**
+ * Returns the workspace folders that are allowed to be synced.
+ */
+export async function getIncludedFolders(): Promise<vscode.WorkspaceFolder[]> {
+  return (await getFolderStates())
+    .filter((state) => !state.excluded)
+    .map((state) => state.folder);
+}
+
+/**
+ * Describes the included folders, using the workspace name when nothing is
+ * excluded.
+ */
+export function getWorkspaceName(included: readonly vscode.WorkspaceFolder[]): string | undefined {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (included.length === folders.length) {
+    return vscode.workspace.name;
+  }
+  return included.map((folder) => folder.name).join(", ") || undefined;
+}
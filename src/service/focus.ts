@@ -0,0 +1,132 @@
+import * as vscode from "vscode";
+
+export type FocusMode = "focus" | "break";
+
+export interface FocusState {
+  mode: FocusMode;
+  startedAt: number;
+  endsAt: number;
+}
+
+const TICK_INTERVAL = 1000;
+const FOCUS_STATE_KEY = "githubstatus.focusSession";
+
+/**
+ * Pomodoro style focus sessions. A focus session is followed by a break
+ * automatically, the break ends the session. Sessions are kept in the global
+ * state when given one, so every window sees the same session.
+ */
+export class FocusSession implements vscode.Disposable {
+  private __memento?: vscode.Memento;
+  private __state?: FocusState;
+  private __timer: NodeJS.Timeout | null = null;
+  private __onDidChange = new vscode.EventEmitter<FocusState | undefined>();
+  private __onDidTick = new vscode.EventEmitter<FocusState>();
+
+  // Fires when a focus session or break starts or ends
+  public readonly onDidChange = this.__onDidChange.event;
+  // Fires every second while a focus session or break is running
+  public readonly onDidTick = this.__onDidTick.event;
+
+  constructor(memento?: vscode.Memento) {
+    this.__memento = memento;
+    this.__state = this.current;
+    // Sessions start and stop in other windows too, so keep watching the shared
+    // state. Also keeps counting down a session started before a restart.
+    if (memento || this.__state) {
+      this.startTimer();
+    }
+  }
+
+  // Sessions that ended while no window was counting down are over
+  public get current(): FocusState | undefined {
+    const state = this.stored;
+    return state && Date.now() < state.endsAt + TICK_INTERVAL ? state : undefined;
+  }
+
+  private get stored(): FocusState | undefined {
+    return this.__memento ? this.__memento.get<FocusState>(FOCUS_STATE_KEY) : this.__state;
+  }
+
+  public get remainingSeconds(): number {
+    const state = this.current;
+    return state ? Math.max(Math.ceil((state.endsAt - Date.now()) / 1000), 0) : 0;
+  }
+
+  public get remainingMinutes(): number {
+    return Math.ceil(this.remainingSeconds / 60);
+  }
+
+  public start(mode: FocusMode, minutes: number): void {
+    const now = Date.now();
+    this.setState({ mode, startedAt: now, endsAt: now + minutes * 60000 });
+    this.startTimer();
+    this.__onDidChange.fire(this.__state);
+  }
+
+  public stop(): void {
+    if (!this.__memento) {
+      this.clearTimer();
+    }
+    if (this.__state || this.current) {
+      this.setState(undefined);
+      this.__onDidChange.fire(undefined);
+    }
+  }
+
+  // Closing a window leaves the session running in the others
+  public dispose(): void {
+    this.clearTimer();
+    this.__onDidChange.dispose();
+    this.__onDidTick.dispose();
+  }
+
+  private setState(state: FocusState | undefined): void {
+    this.__state = state;
+    this.__memento?.update(FOCUS_STATE_KEY, state);
+  }
+
+  private startTimer(): void {
+    if (!this.__timer) {
+      this.__timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.__timer) {
+      clearInterval(this.__timer);
+      this.__timer = null;
+    }
+  }
+
+  private tick(): void {
+    const previous = this.__state;
+    const stored = this.stored;
+    // Finish the session this window counted down even when the timer was
+    // late, other sessions only count while they run
+    const state = stored && stored.startedAt === previous?.startedAt ? stored : this.current;
+    this.__state = state;
+    if (!state) {
+      if (previous) {
+        // Stopped in another window
+        this.__onDidChange.fire(undefined);
+      }
+      return;
+    }
+    if (Date.now() < state.endsAt) {
+      if (state.startedAt !== previous?.startedAt) {
+        // Started in another window
+        this.__onDidChange.fire(state);
+      }
+      this.__onDidTick.fire(state);
+      return;
+    }
+
+    if (state.mode === "focus") {
+      const minutes = vscode.workspace.getConfiguration("githubstatus").get<number>("breakMinutes") ?? 5;
+      this.start("break", minutes);
+    } else {
+      this.stop();
+    }
+  }
+}
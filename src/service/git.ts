@@ -0,0 +1,146 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+// Minimal subset of the built-in git extension API (extensions/git/src/api/git.d.ts)
+interface Branch {
+  readonly name?: string;
+}
+
+interface Remote {
+  readonly name: string;
+  readonly fetchUrl?: string;
+  readonly pushUrl?: string;
+}
+
+interface RepositoryState {
+  readonly HEAD: Branch | undefined;
+  readonly remotes: Remote[];
+  readonly indexChanges: readonly unknown[];
+  readonly onDidChange: vscode.Event<void>;
+}
+
+export interface Repository {
+  readonly rootUri: vscode.Uri;
+  readonly state: RepositoryState;
+  // Missing in older versions of the git extension
+  readonly onDidCommit?: vscode.Event<void>;
+}
+
+interface GitAPI {
+  readonly repositories: Repository[];
+  readonly onDidOpenRepository: vscode.Event<Repository>;
+  getRepository(uri: vscode.Uri): Repository | null;
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+export function getGitApi(): GitAPI | undefined {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  if (!extension || !extension.isActive) {
+    return undefined;
+  }
+
+  try {
+    return extension.exports.getAPI(1);
+  } catch (error) {
+    console.error("Failed to load git API:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Finds the repository for the active editor, falling back to the first
+ * repository of the workspace.
+ */
+export function getRepository(): Repository | undefined {
+  const api = getGitApi();
+  if (!api) {
+    return undefined;
+  }
+
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  return (uri && api.getRepository(uri)) || api.repositories[0];
+}
+
+export function getBranch(): string | undefined {
+  return getRepository()?.state.HEAD?.name;
+}
+
+/**
+ * Returns the remote URLs of the repository containing `uri`. Falls back to
+ * reading `.git/config` while the git extension hasn't opened the repository.
+ */
+export async function getRemoteUrls(uri: vscode.Uri): Promise<string[]> {
+  const repository = getGitApi()?.getRepository(uri);
+  if (repository) {
+    return repository.state.remotes
+      .map((remote) => remote.fetchUrl || remote.pushUrl)
+      .filter((url): url is string => !!url);
+  }
+
+  try {
+    const config = await fs.promises.readFile(path.join(uri.fsPath, ".git", "config"), "utf8");
+    const urls: string[] = [];
+    const pattern = /^\s*url\s*=\s*(.+?)\s*$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(config))) {
+      urls.push(match[1]);
+    }
+    return urls;
+  } catch (error) {
+    return [];
+  }
+}
+
+export interface GitHubRepository {
+  owner: string;
+  name: string;
+}
+
+/**
+ * Returns the owner and name of a repository on `host` from a remote URL such
+ * as `git@github.com:acme/api.git`.
+ */
+export function parseGitHubRemote(url: string, host: string): GitHubRepository | undefined {
+  const [remoteHost, owner, name, ...rest] = normalizeRemoteUrl(url).split("/");
+  if (remoteHost.toLowerCase() !== host.toLowerCase() || !owner || !name || rest.length > 0) {
+    return undefined;
+  }
+  return { owner, name };
+}
+
+/**
+ * Finds the GitHub repository of a local repository, preferring the `origin`
+ * remote.
+ */
+export function getGitHubRepository(repository: Repository, host: string): GitHubRepository | undefined {
+  const remotes = [...repository.state.remotes].sort(
+    (a, b) => Number(b.name === "origin") - Number(a.name === "origin")
+  );
+  for (const remote of remotes) {
+    const url = remote.fetchUrl || remote.pushUrl;
+    const parsed = url && parseGitHubRemote(url, host);
+    if (parsed) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalizes a remote URL such as `git@github.com:acme/api.git` to
+ * `github.com/acme/api`.
+ */
+export function normalizeRemoteUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/^[a-z+]+:\/\//i, "")
+    .replace(/^[^@/]+@/, "")
+    .replace(/^([^/:]+):(?!\d)/, "$1/")
+    .replace(/^([^/:]+):\d+\//, "$1/")
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "");
+}
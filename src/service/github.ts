@@ -2,6 +2,31 @@ import * as vscode from "vscode";
 import { graphql as gitHubApi } from "@octokit/graphql";
 import { RequestParameters, graphql } from "@octokit/graphql/dist-types/types";
 import moment from "moment";
+import * as os from "os";
+import * as path from "path";
+import { getToken } from "./auth";
+import { getApiBaseUrl, getWebHost, isEnterprise } from "./endpoint";
+import { WindowCoordinator } from "./coordinator";
+import { StatusSync, SyncStateChange } from "./sync";
+import { Activity } from "./stats";
+import { FocusSession, FocusState } from "./focus";
+import { isWithinSchedule, Schedule } from "./schedule";
+import { Calendar, CalendarEvent } from "./calendar";
+import { ActivityTracker, getActivityLabel } from "./activity";
+import { matchRule, StatusRule } from "./rules";
+import { getGitHubRepository, getRemoteUrls, getRepository, parseGitHubRemote } from "./git";
+import { applyAliases, getAlias, getPrivateLabel, isIncognito, replaceNames } from "./privacy";
+import { matchOrganization, Organization } from "./organization";
+import { formatStatus, getOutputChannel } from "./output";
+import { StatusHistory, StatusTrigger } from "./history";
+import { CustomStatus, getExpiryDate } from "./custom";
+import { getProviderConfigs, getProviderToken, StatusProvider } from "./provider";
+import { GitHubProvider } from "./providers/github";
+import { createProvider } from "./providers";
+import { formatDuration, renderTemplate, TemplateValues } from "./template";
+import { EmojiInfo, EmojiPreferences, getEmojiCatalog, mergeEmojis } from "./emoji";
+import { pickEmoji } from "../view/emojiPicker";
+import { buildUsersQuery, getActiveStatus, parseTeam, sortTeammates, Teammate, teamMembersQuery } from "./team";
 
 interface IEnv {
   [key: string]: string | undefined;
@@ -20,92 +45,664 @@ const OFFSET = 10000;
 const EMOJI_CACHE_KEY = 'githubstatus.emojiCache';
 const EMOJI_CACHE_TIMESTAMP_KEY = 'githubstatus.emojiCacheTimestamp';
 const CACHE_EXPIRY_HOURS = 24; // Cache emojis for 24 hours
+const DEFAULT_MESSAGE_TEMPLATE = "Working on {workspace}[ in {language}][ for ({duration})]";
+const DEFAULT_IDLE_TEMPLATE = "Idle - Away from keyboard";
+const DEFAULT_FOCUS_TEMPLATE = "Deep focus on {workspace} — {remaining} min left";
+const DEFAULT_BREAK_TEMPLATE = "On a break[ — back in {remaining} min]";
+const DEFAULT_ACTIVITY_TEMPLATES: { [kind: string]: string } = {
+  debugging: "Debugging {workspace}[ ({debugType})]",
+  testing: "Running tests in {workspace}",
+  building: "Building {workspace}",
+  reviewing: "Reviewing changes in {workspace}",
+  terminal: "Working in the terminal on {workspace}",
+  notebook: "Editing notebook[ {notebook}] in {workspace}",
+};
+const DEFAULT_MEETING_TEMPLATE = "In a meeting until {until}";
+const DEFAULT_OFF_HOURS_TEMPLATE = "Off hours";
+const ORIGINAL_STATUS_KEY = "githubstatus.originalStatus";
+const LAST_POSTED_KEY = "githubstatus.lastPostedStatus";
+const PRIVATE_REPOSITORIES_KEY = "githubstatus.privateRepositories";
+const ORGANIZATION_IDS_KEY = "githubstatus.organizationIds";
+const CUSTOM_STATUS_KEY = "githubstatus.customStatus";
+// Pull requests are looked up again after this many minutes
+const PULL_REQUEST_CACHE_MINUTES = 10;
+// Activity changes are posted once the user sticks with the new activity this long
+const ACTIVITY_DEBOUNCE_SECONDS = 30;
 
-const changeUserStatusMutation = `
-  mutation ($status: ChangeUserStatusInput!) {
-    changeUserStatus(input: $status) {
+const viewerStatusQuery = `
+  query {
+    viewer {
       status {
         emoji
         expiresAt
-        limitedAvailability: indicatesLimitedAvailability
+        indicatesLimitedAvailability
         message
+        organization {
+          id
+        }
       }
     }
   }
 `;
 
-export default class {
+const viewerOrganizationsQuery = `
+  query {
+    viewer {
+      organizations(first: 100) {
+        nodes {
+          id
+          login
+          name
+        }
+      }
+    }
+  }
+`;
+
+const organizationQuery = `
+  query ($login: String!) {
+    organization(login: $login) {
+      id
+    }
+  }
+`;
+
+const repositoryVisibilityQuery = `
+  query ($owner: String!, $name: String!) {
+    repository(owner: $owner, name: $name) {
+      isPrivate
+    }
+  }
+`;
+
+const pullRequestQuery = `
+  query ($owner: String!, $name: String!, $branch: String!) {
+    repository(owner: $owner, name: $name) {
+      pullRequests(headRefName: $branch, states: OPEN, first: 1, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        nodes {
+          number
+          title
+          url
+        }
+      }
+    }
+  }
+`;
+
+interface PullRequest {
+  number: number;
+  title: string;
+  url: string;
+}
+
+// Checked out branch of a synced folder, with its GitHub repository and pull request
+interface RepositoryContext {
+  branch?: string;
+  // Missing for repositories that aren't hosted on GitHub
+  owner?: string;
+  name?: string;
+  pullRequest?: PullRequest;
+}
+
+interface ViewerStatus {
+  emoji: string | null;
+  expiresAt: string | null;
+  indicatesLimitedAvailability: boolean;
+  message: string | null;
+  organization: { id: string } | null;
+}
+
+export interface GitHubServiceOptions {
+  // Overrides `githubstatus.apiBaseUrl`, e.g. to talk to a local mock server
+  baseUrl?: string;
+  // Token used instead of the VS Code session or stored access token
+  token?: string;
+  // Providers used instead of the ones in `githubstatus.providers`
+  providers?: StatusProvider[];
+}
+
+interface ProviderSync {
+  provider: StatusProvider;
+  sync: StatusSync;
+}
+
+interface ActiveCustomStatus {
+  status: UserStatus;
+  // Timestamp when automatic updates resume, never when missing
+  until?: number;
+}
+
+export default class implements vscode.Disposable {
   private __api: graphql;
-  private __expires = 1;
   private __start?: moment.Moment;
   private __currentLanguage?: string;
   private __emojis: GitHubEmoji = {};
   private __emojiCache: EmojiCacheItem[] = [];
+  // Catalogue entries available on the server, plus its custom emojis
+  private __emojiList?: EmojiInfo[];
+  private __emojiPreferences: EmojiPreferences;
   private __context?: vscode.ExtensionContext;
-  private __lastActivity: moment.Moment;
-  private __idleTimeout = 15; // minutes of inactivity before going idle
+  // Set by the controller while the idle status is up
   private __isIdle = false;
+  private __coordinator?: WindowCoordinator;
+  private __github: GitHubProvider;
+  private __sync: StatusSync;
+  // Providers the status is posted to besides GitHub
+  private __providers: ProviderSync[] = [];
+  private __workspace?: string;
+  private __folders?: readonly vscode.WorkspaceFolder[];
+  private __isPrivate = false;
+  private __organizationId?: string;
+  private __repository?: RepositoryContext;
+  private __pullRequests = new Map<string, { pullRequest?: PullRequest; time: number }>();
+  private __options: GitHubServiceOptions;
+  private __history: StatusHistory;
+  // Trigger of each status waiting to be sent
+  private __triggers = new WeakMap<UserStatus, StatusTrigger>();
+  private __custom?: ActiveCustomStatus;
+  private __customTimer: NodeJS.Timeout | null = null;
+  private __focus?: FocusSession;
+  private __focusMinutesPosted?: number;
+  private __calendar?: Calendar;
+  private __meetingTimer: NodeJS.Timeout | null = null;
+  private __activityTimer: NodeJS.Timeout | null = null;
+  private __activity?: ActivityTracker;
+  private __disposables: vscode.Disposable[] = [];
+  private __lastPosted?: UserStatus;
+  private __onDidPostStatus = new vscode.EventEmitter<UserStatus>();
   public received = false;
 
-  constructor(token?: string, context?: vscode.ExtensionContext) {
-    const config: RequestParameters = {};
-
-    this.__expires =
-      vscode.workspace.getConfiguration("githubstatus").get("interval") ?? 1;
+  // Fires after a status was posted to GitHub
+  public readonly onDidPostStatus = this.__onDidPostStatus.event;
 
-    this.__idleTimeout =
-      vscode.workspace.getConfiguration("githubstatus").get("idleTimeout") ?? 15;
-
-    this.__lastActivity = moment();
+  constructor(
+    context?: vscode.ExtensionContext,
+    coordinator?: WindowCoordinator,
+    options: GitHubServiceOptions = {}
+  ) {
+    this.__options = options;
 
     if (context) {
       this.__context = context;
     }
 
+    this.__api = gitHubApi.defaults({ baseUrl: this.baseUrl });
+    this.__history = new StatusHistory(context);
+    this.__emojiPreferences = new EmojiPreferences(context);
+    this.__github = new GitHubProvider(() => this.__api);
+    this.__sync = new StatusSync((status) => this.send(this.__github, status));
+    options.providers?.forEach((provider) => this.addProvider(provider));
+
+    // Custom statuses stay up across restarts
+    this.__custom = context?.globalState.get<ActiveCustomStatus>(CUSTOM_STATUS_KEY);
+    this.scheduleCustomStatusEnd();
+
+    // Load emojis from cache or GitHub API
+    this.loadEmojis();
+
+    // Post right away when this window takes over from another one
+    if (coordinator) {
+      this.__coordinator = coordinator;
+      this.__disposables.push(
+        coordinator.onDidChangeLeadership((isLeader) => {
+          if (!isLeader || !this.received || !this.__start) {
+            return;
+          }
+          if (this.__isIdle) {
+            this.setIdle();
+          } else if (this.workspaceName) {
+            this.updateStatus(this.workspaceName, "activity");
+          }
+        })
+      );
+    }
+
+    this.__disposables.push(
+      vscode.workspace.onDidSaveTextDocument((e) => {
+        this.__currentLanguage = e.languageId;
+      })
+    );
+  }
+
+  public dispose(): void {
+    this.__disposables.forEach((disposable) => disposable.dispose());
+    this.__disposables = [];
+    [this.__customTimer, this.__meetingTimer, this.__activityTimer].forEach((timer) => timer && clearTimeout(timer));
+    this.__customTimer = null;
+    this.__meetingTimer = null;
+    this.__activityTimer = null;
+    this.__sync.dispose();
+    this.__providers.forEach(({ sync }) => sync.dispose());
+    this.__onDidPostStatus.dispose();
+  }
+
+  /**
+   * Limits the status to the given workspace folders, e.g. when some folders
+   * of a multi-root workspace are blacklisted.
+   */
+  public async setWorkspace(
+    name: string | undefined,
+    folders: readonly vscode.WorkspaceFolder[]
+  ): Promise<void> {
+    this.__workspace = name;
+    this.__folders = folders;
+    this.__isPrivate = await this.hasPrivateRepository(folders);
+    this.__organizationId = await this.resolveOrganization(folders);
+  }
+
+  /**
+   * Posts focus and break statuses while a focus session is running, and the
+   * regular status once it ends.
+   */
+  public setFocusSession(focus: FocusSession): void {
+    this.__focus = focus;
+    this.__disposables.push(
+      focus.onDidChange(() => {
+        this.__focusMinutesPosted = undefined;
+        if (this.__start && this.workspaceName) {
+          this.updateStatus(this.workspaceName, "manual");
+        }
+      }),
+      // Keep the remaining minutes in the message up to date
+      focus.onDidTick(() => {
+        if (this.__focusMinutesPosted !== focus.remainingMinutes && this.__start && this.workspaceName) {
+          this.updateStatus(this.workspaceName, "interval");
+        }
+      })
+    );
+  }
+
+  /**
+   * Refreshes the status when the activity changes, e.g. when debugging
+   * starts or the user switches to the terminal.
+   */
+  public setActivityTracker(activity: ActivityTracker): void {
+    this.__activity = activity;
+    this.__disposables.push(
+      // Show the new branch and its pull request right away
+      activity.onDidChangeBranch(() => {
+        if (!this.__isIdle && this.__start && this.workspaceName) {
+          this.updateStatus(this.workspaceName, "branch");
+        }
+      }),
+      // Leaving idle is up to the controller. Switching back and forth between
+      // the editor and the terminal shouldn't post every time.
+      activity.onDidChange(() => {
+        if (this.__activityTimer) {
+          clearTimeout(this.__activityTimer);
+        }
+        this.__activityTimer = setTimeout(() => {
+          this.__activityTimer = null;
+          if (!this.__isIdle && this.__start && this.workspaceName) {
+            this.updateStatus(this.workspaceName, "activity");
+          }
+        }, ACTIVITY_DEBOUNCE_SECONDS * 1000);
+      })
+    );
+  }
+
+  /**
+   * Checks whether any folder without an alias belongs to a private GitHub
+   * repository, when `githubstatus.redactPrivateRepos` is enabled.
+   */
+  private async hasPrivateRepository(folders: readonly vscode.WorkspaceFolder[]): Promise<boolean> {
+    if (
+      !this.received ||
+      !vscode.workspace.getConfiguration("githubstatus").get<boolean>("redactPrivateRepos")
+    ) {
+      return false;
+    }
+
+    const host = getWebHost();
+    for (const folder of folders) {
+      if (getAlias(folder.name)) {
+        continue;
+      }
+      for (const url of await getRemoteUrls(folder.uri)) {
+        const repository = parseGitHubRemote(url, host);
+        if (repository && (await this.isRepositoryPrivate(repository.owner, repository.name))) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private async isRepositoryPrivate(owner: string, name: string): Promise<boolean> {
+    const key = this.getHostKey(`${owner}/${name}`);
+    const cache = this.__context?.globalState.get<{ [repo: string]: boolean }>(PRIVATE_REPOSITORIES_KEY) ?? {};
+    if (key in cache) {
+      return cache[key];
+    }
+
+    let isPrivate: boolean;
+    try {
+      const { repository } = await this.__api<{ repository: { isPrivate: boolean } | null }>(
+        repositoryVisibilityQuery,
+        { owner, name }
+      );
+      // Repositories we can't see are treated as private
+      isPrivate = repository?.isPrivate ?? true;
+    } catch (err) {
+      console.error(`Failed to check visibility of ${owner}/${name}:`, err);
+      return true;
+    }
+
+    await this.__context?.globalState.update(PRIVATE_REPOSITORIES_KEY, { ...cache, [key]: isPrivate });
+    return isPrivate;
+  }
+
+  /**
+   * Looks up the GitHub repository of the active editor, its checked out
+   * branch and the open pull request for that branch. Repositories outside the
+   * synced folders or in folders with an alias are left out.
+   */
+  private async getRepositoryContext(): Promise<RepositoryContext | undefined> {
+    const repository = getRepository();
+    if (!repository) {
+      return undefined;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(repository.rootUri);
+    if (
+      !folder ||
+      getAlias(folder.name) ||
+      (this.__folders && !this.__folders.some((synced) => synced.uri.toString() === folder.uri.toString()))
+    ) {
+      return undefined;
+    }
+
+    const branch = repository.state.HEAD?.name;
+    const remote = getGitHubRepository(repository, getWebHost());
+    if (!remote) {
+      return { branch };
+    }
+    return {
+      ...remote,
+      branch,
+      pullRequest: branch ? await this.getPullRequest(remote.owner, remote.name, branch) : undefined,
+    };
+  }
+
+  private async getPullRequest(owner: string, name: string, branch: string): Promise<PullRequest | undefined> {
+    if (!this.received) {
+      return undefined;
+    }
+
+    const key = this.getHostKey(`${owner}/${name}#${branch}`);
+    const cached = this.__pullRequests.get(key);
+    if (cached && Date.now() - cached.time < PULL_REQUEST_CACHE_MINUTES * 60000) {
+      return cached.pullRequest;
+    }
+
+    let pullRequest: PullRequest | undefined;
+    try {
+      const { repository } = await this.__api<{ repository: { pullRequests: { nodes: PullRequest[] } } | null }>(
+        pullRequestQuery,
+        { owner, name, branch }
+      );
+      pullRequest = repository?.pullRequests.nodes[0];
+    } catch (err) {
+      // Try again once the cache entry expires
+      console.error(`Failed to look up pull request of ${owner}/${name}#${branch}:`, err);
+    }
+    this.__pullRequests.set(key, { pullRequest, time: Date.now() });
+    return pullRequest;
+  }
+
+  /**
+   * Returns the ID of the organization to scope statuses to: the one mapped to
+   * a folder's remote in `githubstatus.organizationMap`, or else the one in
+   * `githubstatus.organization`. Statuses are public without either.
+   */
+  private async resolveOrganization(
+    folders: readonly vscode.WorkspaceFolder[]
+  ): Promise<string | undefined> {
+    if (!this.received) {
+      return undefined;
+    }
+
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const map = config.get<{ [remote: string]: string }>("organizationMap") || {};
+    let login: string | undefined;
+    if (Object.keys(map).length > 0) {
+      for (const folder of folders) {
+        login = matchOrganization(map, await getRemoteUrls(folder.uri));
+        if (login) {
+          break;
+        }
+      }
+    }
+    login = login || config.get<string>("organization") || undefined;
+    return login ? this.getOrganizationId(login) : undefined;
+  }
+
+  private async getOrganizationId(login: string): Promise<string | undefined> {
+    const key = this.getHostKey(login);
+    const cache = this.__context?.globalState.get<{ [login: string]: string }>(ORGANIZATION_IDS_KEY) ?? {};
+    if (cache[key]) {
+      return cache[key];
+    }
+
+    try {
+      const { organization } = await this.__api<{ organization: { id: string } | null }>(
+        organizationQuery,
+        { login }
+      );
+      if (!organization) {
+        return undefined;
+      }
+      await this.__context?.globalState.update(ORGANIZATION_IDS_KEY, { ...cache, [key]: organization.id });
+      return organization.id;
+    } catch (err) {
+      console.error(`Failed to look up organization ${login}:`, err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the organizations of the signed in user, e.g. for a quick pick.
+   */
+  public async getOrganizations(): Promise<Organization[]> {
+    const { viewer } = await this.__api<{ viewer: { organizations: { nodes: Organization[] } } }>(
+      viewerOrganizationsQuery
+    );
+    const organizations = viewer.organizations.nodes;
+    const cache = this.__context?.globalState.get<{ [login: string]: string }>(ORGANIZATION_IDS_KEY) ?? {};
+    organizations.forEach((organization) => (cache[this.getHostKey(organization.login)] = organization.id));
+    await this.__context?.globalState.update(ORGANIZATION_IDS_KEY, cache);
+    return organizations;
+  }
+
+  /**
+   * Looks up the statuses of the users in `githubstatus.teammates` and the
+   * members of `githubstatus.team`. Statuses scoped to an organization are
+   * only returned when the signed in user belongs to it.
+   */
+  public async getTeammates(): Promise<Teammate[]> {
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const logins = (config.get<string[]>("teammates") ?? []).map((login) => login.trim()).filter(Boolean);
+    const team = parseTeam(config.get<string>("team"));
+    const teammates: Teammate[] = [];
+
+    if (team) {
+      const { organization } = await this.__api<{
+        organization: { team: { members: { nodes: Teammate[] } } | null } | null;
+      }>(teamMembersQuery, { ...team });
+      if (!organization?.team) {
+        throw new Error(`Team ${team.organization}/${team.slug} not found`);
+      }
+      teammates.push(...organization.team.members.nodes);
+    }
+    if (logins.length > 0) {
+      const variables: { [name: string]: string } = {};
+      logins.forEach((login, i) => (variables[`login${i}`] = login));
+      let users: { [field: string]: Teammate | null };
+      try {
+        users = await this.__api<{ [field: string]: Teammate | null }>(buildUsersQuery(logins.length), variables);
+      } catch (err) {
+        // Unknown logins fail the query, but the others are still returned
+        const data = (err as { data?: { [field: string]: Teammate | null } }).data;
+        if (!data) {
+          throw err;
+        }
+        getOutputChannel().warn(`Failed to look up some teammates: ${err instanceof Error ? err.message : err}`);
+        users = data;
+      }
+      teammates.push(...Object.values(users).filter((user): user is Teammate => !!user));
+    }
+
+    return sortTeammates(
+      teammates.map((teammate) => ({ ...teammate, status: getActiveStatus(teammate.status) }))
+    );
+  }
+
+  // Cache key for names that are only unique per GitHub host
+  private getHostKey(name: string): string {
+    return (isEnterprise() ? `${getWebHost()}/${name}` : name).toLowerCase();
+  }
+
+  private get baseUrl(): string {
+    return this.__options.baseUrl ?? getApiBaseUrl();
+  }
+
+  // Expiry of regular statuses, in minutes
+  private get expires(): number {
+    return vscode.workspace.getConfiguration("githubstatus").get<number>("interval") ?? 1;
+  }
+
+  private get workspaceName(): string | undefined {
+    return this.__workspace ?? vscode.workspace.name;
+  }
+
+  /**
+   * Resolves credentials from the VS Code GitHub session or the stored access
+   * token. Returns whether a token was found.
+   */
+  public async authenticate(interactive = false): Promise<boolean> {
+    if (!this.__context && !this.__options.token) {
+      return false;
+    }
+
+    const token = this.__options.token ??
+      (this.__context ? await getToken(this.__context, interactive) : undefined);
+    const config: RequestParameters = { baseUrl: this.baseUrl };
     if (token) {
-      this.received = true;
       config.headers = { authorization: `token ${token}` };
-    } else {
-      // Get token
-      vscode.commands.executeCommand("githubstatus.createToken");
     }
     this.__api = gitHubApi.defaults(config);
+    this.received = !!token;
+    await this.loadProviders();
+    return this.received;
+  }
 
-    // Load emojis from cache or GitHub API
-    this.loadEmojis();
+  /**
+   * Sets up the providers of `githubstatus.providers` that have a token.
+   */
+  private async loadProviders(): Promise<void> {
+    if (!this.__context || this.__options.providers) {
+      return;
+    }
 
-    // Track user activity for idle detection
-    vscode.workspace.onDidSaveTextDocument((e) => {
-      this.__currentLanguage = e.languageId;
-      this.onActivity();
-    });
+    this.__providers.forEach(({ sync }) => sync.dispose());
+    this.__providers = [];
+    for (const config of getProviderConfigs()) {
+      const token = await getProviderToken(this.__context, config.name);
+      if (!token) {
+        getOutputChannel().warn(`No token for ${config.name}, run "GitHub Status: Set Provider Token"`);
+        continue;
+      }
+      const provider = createProvider(config, token);
+      if (!provider) {
+        getOutputChannel().warn(`Invalid provider ${config.name}, check its type and base URL`);
+        continue;
+      }
+      this.addProvider(provider);
+    }
+  }
 
-    vscode.workspace.onDidChangeTextDocument(() => {
-      this.onActivity();
-    });
+  private addProvider(provider: StatusProvider): void {
+    this.__providers.push({ provider, sync: new StatusSync((status) => this.send(provider, status)) });
+  }
 
-    vscode.window.onDidChangeTextEditorSelection(() => {
-      this.onActivity();
-    });
+  /**
+   * Stores the user's current status so it can be restored later, unless it
+   * is a status posted by this extension.
+   */
+  public async captureStatus(): Promise<void> {
+    if (!this.__context || !this.received) {
+      return;
+    }
 
-    vscode.window.onDidChangeActiveTextEditor(() => {
-      this.onActivity();
-    });
+    try {
+      const { viewer } = await this.__api<{ viewer: { status: ViewerStatus | null } }>(
+        viewerStatusQuery
+      );
+      const current = viewer.status;
+      const lastPosted = this.__context.globalState.get<UserStatus>(LAST_POSTED_KEY);
+      if (
+        current &&
+        lastPosted &&
+        current.message === lastPosted.message &&
+        current.emoji === lastPosted.emoji
+      ) {
+        return;
+      }
 
-    vscode.window.onDidChangeTextEditorVisibleRanges(() => {
-      this.onActivity();
-    });
+      const original: UserStatus | null = current
+        ? {
+          emoji: current.emoji,
+          expiresAt: current.expiresAt,
+          limitedAvailability: current.indicatesLimitedAvailability,
+          message: current.message,
+          organizationId: current.organization?.id ?? null,
+        }
+        : null;
+      await this.__context.globalState.update(ORIGINAL_STATUS_KEY, original);
+    } catch (err) {
+      console.error("Failed to read current status:", err);
+    }
   }
 
-  private onActivity(): void {
-    this.__lastActivity = moment();
-    if (this.__isIdle) {
-      this.__isIdle = false;
-      // Resume active status if we were idle
-      if (vscode.workspace.name) {
-        this.updateStatus(vscode.workspace.name);
-      }
+  private getOriginalStatus(): UserStatus | undefined {
+    const original = this.__context?.globalState.get<UserStatus | null>(ORIGINAL_STATUS_KEY);
+    if (!original || (!original.message && !original.emoji)) {
+      return undefined;
     }
+    if (original.expiresAt && new Date(original.expiresAt).getTime() <= Date.now()) {
+      return undefined;
+    }
+    return original;
+  }
+
+  // The user marked themselves as busy and didn't allow us to replace that
+  private isUserBusy(): boolean {
+    return (
+      !!this.getOriginalStatus()?.limitedAvailability &&
+      !vscode.workspace.getConfiguration("githubstatus").get<boolean>("overrideBusy")
+    );
+  }
+
+  public get onDidChangeSyncState(): vscode.Event<SyncStateChange> {
+    return this.__sync.onDidChangeState;
+  }
+
+  /**
+   * Describes what is being tracked right now, for the time statistics.
+   */
+  public getActivity(): Activity | undefined {
+    if (!this.__start || !this.workspaceName) {
+      return undefined;
+    }
+
+    const idle = this.__isIdle;
+    return {
+      workspace: this.workspaceName,
+      language: this.__activity?.state.kind === "terminal"
+        ? undefined
+        : this.getActiveDocument()?.languageId ?? this.__currentLanguage,
+      idle,
+    };
   }
 
   private async loadEmojis(): Promise<void> {
@@ -119,11 +716,12 @@ export default class {
         cachedEmojis.forEach(emoji => {
           this.__emojis[emoji.name] = emoji.url;
         });
+        this.__emojiList = mergeEmojis(getEmojiCatalog(), this.__emojis);
         return;
       }
 
       // Fetch fresh emojis from GitHub API
-      const response = await fetch("https://api.github.com/emojis");
+      const response = await fetch(`${this.baseUrl}/emojis`);
       if (response.ok) {
         this.__emojis = await response.json() as GitHubEmoji;
 
@@ -138,29 +736,18 @@ export default class {
       }
     } catch (error) {
       console.error("Failed to load emojis:", error);
-      // Fallback to default emojis
-      this.__emojis = {
-        "computer": "https://github.githubassets.com/images/icons/emoji/unicode/1f4bb.png?v8",
-        "rocket": "https://github.githubassets.com/images/icons/emoji/unicode/1f680.png?v8",
-        "zap": "https://github.githubassets.com/images/icons/emoji/unicode/26a1.png?v8",
-        "coffee": "https://github.githubassets.com/images/icons/emoji/unicode/2615.png?v8",
-        "fire": "https://github.githubassets.com/images/icons/emoji/unicode/1f525.png?v8",
-        "house": "https://github.githubassets.com/images/icons/emoji/unicode/1f3e0.png?v8"
-      };
-
-      this.__emojiCache = Object.entries(this.__emojis).map(([name, url]) => ({
-        name,
-        url
-      }));
     }
+    // Offline, the whole bundled catalogue is used
+    this.__emojiList = mergeEmojis(getEmojiCatalog(), this.__emojis);
   }
 
   private async getCachedEmojis(): Promise<EmojiCacheItem[] | null> {
     if (!this.__context) return null;
 
     try {
-      const cachedEmojis = this.__context.globalState.get<EmojiCacheItem[]>(EMOJI_CACHE_KEY);
-      const cacheTimestamp = this.__context.globalState.get<number>(EMOJI_CACHE_TIMESTAMP_KEY);
+      const [cacheKey, timestampKey] = this.getEmojiCacheKeys();
+      const cachedEmojis = this.__context.globalState.get<EmojiCacheItem[]>(cacheKey);
+      const cacheTimestamp = this.__context.globalState.get<number>(timestampKey);
 
       if (!cachedEmojis || !cacheTimestamp) {
         return null;
@@ -186,103 +773,35 @@ export default class {
     if (!this.__context) return;
 
     try {
-      await this.__context.globalState.update(EMOJI_CACHE_KEY, emojis);
-      await this.__context.globalState.update(EMOJI_CACHE_TIMESTAMP_KEY, Date.now());
+      const [cacheKey, timestampKey] = this.getEmojiCacheKeys();
+      await this.__context.globalState.update(cacheKey, emojis);
+      await this.__context.globalState.update(timestampKey, Date.now());
     } catch (error) {
       console.error("Failed to cache emojis:", error);
     }
   }
 
-  private getEmojiPreview(name: string, url: string): string {
-    // Expanded map of common GitHub emoji shortcodes to Unicode
-    const emojiMap: { [key: string]: string } = {
-      computer: '💻',
-      rocket: '🚀',
-      zap: '⚡',
-      coffee: '☕',
-      fire: '🔥',
-      house: '🏠',
-      zzz: '💤',
-      brain: '🧠',
-      eyes: '👀',
-      hammer: '🔨',
-      wrench: '🔧',
-      bulb: '💡',
-      smile: '😊',
-      heart: '❤️',
-      thumbsup: '👍',
-      thumbsdown: '👎',
-      clap: '👏',
-      tada: '🎉',
-      thinking_face: '🤔',
-      joy: '😂'
-    };
-
-    // Try to extract Unicode from URL (supports single and multi-codepoint emojis)
-    const unicodeMatch = url.match(/\/unicode\/([0-9a-fA-F-]+)\.png/);
-    if (unicodeMatch && unicodeMatch[1]) {
-      try {
-        // Split multi-codepoint emojis (e.g., '1f468-200d-1f469')
-        const codePoints = unicodeMatch[1].split('-').filter(code => code !== '200d'); // Ignore zero-width joiner
-        const emoji = codePoints
-          .map(code => String.fromCodePoint(parseInt(code, 16)))
-          .join('');
-        return emoji;
-      } catch (e) {
-        console.error(`Failed to parse Unicode from URL for ${name}:`, e);
-      }
+  // Enterprise servers can have custom emojis, so each host gets its own cache
+  private getEmojiCacheKeys(): [string, string] {
+    if (!isEnterprise()) {
+      return [EMOJI_CACHE_KEY, EMOJI_CACHE_TIMESTAMP_KEY];
     }
-
-    // Fallback to static map or shortcode
-    return emojiMap[name] || `:${name}:`;
+    const host = getWebHost();
+    return [`${EMOJI_CACHE_KEY}.${host}`, `${EMOJI_CACHE_TIMESTAMP_KEY}.${host}`];
   }
 
-  public getAvailableEmojis(): EmojiCacheItem[] {
-    return this.__emojiCache;
+  public getAvailableEmojis(): EmojiInfo[] {
+    return this.__emojiList ?? getEmojiCatalog();
   }
 
   public async selectEmoji(): Promise<string | undefined> {
-    const emojiList = this.getAvailableEmojis();
-
-    // Create quick pick items with text-based emoji preview
-    const quickPickItems = emojiList.map(emoji => ({
-      label: `${this.getEmojiPreview(emoji.name, emoji.url)} :${emoji.name}:`,
-      description: emoji.name,
-      detail: `${emoji.url}`,
-      emoji: emoji.name
-    }));
-
-    // Sort by popularity (put common coding/work emojis first)
-    const popularEmojis = ['computer', 'rocket', 'zap', 'fire', 'coffee', 'brain', 'eyes', 'hammer', 'wrench', 'bulb'];
-    quickPickItems.sort((a, b) => {
-      const aIndex = popularEmojis.indexOf(a.emoji);
-      const bIndex = popularEmojis.indexOf(b.emoji);
-
-      if (aIndex !== -1 && bIndex !== -1) {
-        return aIndex - bIndex;
-      } else if (aIndex !== -1) {
-        return -1;
-      } else if (bIndex !== -1) {
-        return 1;
-      } else {
-        return a.emoji.localeCompare(b.emoji);
-      }
-    });
-
-    const selectedEmoji = await vscode.window.showQuickPick(
-      quickPickItems,
-      {
-        placeHolder: "Select an emoji for your status (Unicode/shortcode preview in label, URL in detail)",
-        matchOnDescription: true,
-        matchOnDetail: false,
-        canPickMany: false
-      }
-    );
-
-    return selectedEmoji ? selectedEmoji.emoji : undefined;
+    return pickEmoji(this.getAvailableEmojis(), this.__emojiPreferences);
   }
 
-  public async updateStatus(workspace: string): Promise<NodeJS.Timeout | null> {
+  public async updateStatus(
+    workspace: string,
+    trigger: StatusTrigger = "interval"
+  ): Promise<void> {
     let emoji = vscode.workspace
       .getConfiguration("githubstatus")
       .get("emoji") as string;
@@ -300,85 +819,486 @@ export default class {
     }
 
     const time = moment(new Date());
-    let diff = "";
-    let interval: NodeJS.Timeout | null = null;
-
-    // Check if user has been idle
-    const minutesSinceActivity = time.diff(this.__lastActivity, "minutes");
-    if (minutesSinceActivity >= this.__idleTimeout && !this.__isIdle) {
-      this.__isIdle = true;
-      await this.setIdle();
-      return null;
-    }
+    let duration = "";
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const focus = this.__focus?.current;
+    const meeting = focus ? undefined : await this.getCurrentMeeting();
+    const offHours = !focus && !meeting && !isWithinSchedule(config.get<Schedule>("schedule"));
+    // Focus sessions, meetings and off hours replace the idle status
+    const scheduled = !!(focus || meeting || offHours);
 
     // If we're idle, don't update active status
-    if (this.__isIdle) {
-      return null;
+    if (!scheduled && this.__isIdle) {
+      return;
     }
 
     if (!this.__start) {
       this.__start = time;
-      interval = setInterval(
-        () => this.updateStatus(workspace),
-        this.__expires * 60000
-      );
     } else {
-      let diffN = Math.floor(time.diff(this.__start, "minutes"));
-      diff = `(${diffN} minute${diffN > 1 ? "s" : ""})`;
-      if (diffN > 60) {
-        const hours = Math.floor(diffN / 60);
-        const minutes = Math.floor(diffN % 60);
-        console.log(diffN, time.diff(this.__start, "minutes"), hours, minutes);
-        diff = `(${hours} hour${hours > 1 ? "s" : ""} ${minutes} minute${minutes > 1 ? "s" : ""
-          })`;
+      duration = formatDuration(Math.floor(time.diff(this.__start, "minutes")));
+    }
+
+    // Another window is posting the status, the user is busy or has set a custom status
+    if (!this.isLeader() || this.isUserBusy() || this.customStatus) {
+      return;
+    }
+
+    this.__repository = await this.getRepositoryContext();
+
+    if (focus) {
+      this.post(this.getFocusStatus(focus, workspace, duration), trigger);
+      return;
+    }
+
+    if (meeting) {
+      this.post(this.getMeetingStatus(meeting, workspace), trigger);
+      // Resume the normal status as soon as the meeting ends, the update
+      // interval takes care of meetings that end later
+      if (this.__meetingTimer) {
+        clearTimeout(this.__meetingTimer);
+        this.__meetingTimer = null;
+      }
+      const delay = meeting.end.getTime() - Date.now() + 1000;
+      if (delay <= this.expires * 60000) {
+        this.__meetingTimer = setTimeout(() => {
+          this.__meetingTimer = null;
+          if (this.__start) {
+            this.updateStatus(workspace);
+          }
+        }, delay);
+      }
+      return;
+    }
+
+    if (offHours) {
+      // Either post nothing and let the last status expire, or an off hours status
+      if (config.get<string>("offHours") === "status") {
+        this.post({
+          emoji: `:${config.get<string>("offHoursEmoji") || "crescent_moon"}:`,
+          message: renderTemplate(
+            config.get<string>("offHoursTemplate") || DEFAULT_OFF_HOURS_TEMPLATE,
+            this.getTemplateValues(workspace, duration)
+          ),
+          expiresAt: new Date(OFFSET + Date.now() + this.expires * 60000).toISOString(),
+        }, trigger);
       }
+      return;
     }
 
+    const rule = this.getMatchingRule(workspace);
+    if (rule?.skip) {
+      return;
+    }
+    const template = rule?.template || this.getActivityTemplate() || vscode.workspace
+      .getConfiguration("githubstatus")
+      .get<string>("messageTemplate") || DEFAULT_MESSAGE_TEMPLATE;
+
     const status: UserStatus = {
       expiresAt: new Date(
-        OFFSET + new Date().getTime() + this.__expires * 60000
+        OFFSET + new Date().getTime() + this.expires * 60000
       ).toISOString(),
-      message: `Working on ${workspace}${this.__currentLanguage ? ` in ${this.__currentLanguage}` : ""}${diff.length > 0 ? ` for ${diff}` : ""}`,
-      emoji: `:${emoji}:`,
+      message: renderTemplate(template, this.getTemplateValues(workspace, duration)),
+      emoji: `:${rule?.emoji || emoji}:`,
+      limitedAvailability: rule?.busy,
     };
 
+    this.post(status, trigger);
+    return;
+  }
+
+  // Posts a status to GitHub and all other providers
+  private post(status: UserStatus, trigger: StatusTrigger, retry = true): Promise<void> {
+    this.__triggers.set(status, trigger);
+    return Promise.all([
+      this.__sync.push(status, retry),
+      ...this.__providers.map(({ sync }) => sync.push(status, retry)),
+    ]).then(() => undefined);
+  }
+
+  // The user's original status only exists on GitHub
+  private postToGitHub(status: UserStatus, trigger: StatusTrigger, retry = true): Promise<void> {
+    this.__triggers.set(status, trigger);
+    return this.__sync.push(status, retry);
+  }
+
+  // Sends a status to a provider and records the attempt in the status history
+  private async send(provider: StatusProvider, status: UserStatus): Promise<void> {
+    const trigger = this.__triggers.get(status) ?? "interval";
+    const isGitHub = provider === this.__github;
+    // Statuses without an explicit scope follow the workspace's organization
+    const input = isGitHub && status.organizationId === undefined
+      ? { ...status, organizationId: this.__organizationId }
+      : status;
+    const output = getOutputChannel();
+    const entry = { time: new Date().toISOString(), trigger, provider: provider.name, status: input };
+
+    if (vscode.workspace.getConfiguration("githubstatus").get<boolean>("dryRun")) {
+      output.info(`[dry run] [${provider.name}] [${trigger}] ${formatStatus(input)}`);
+      await this.__history.add({ ...entry, dryRun: true });
+      return;
+    }
+
     try {
-      await this.__api(changeUserStatusMutation, { request: {}, status });
+      const response = await provider.setStatus(input);
+      output.info(`[${provider.name}] [${trigger}] ${formatStatus(input)}`);
+      output.debug(JSON.stringify({ status: input, response }));
+      await this.__history.add({ ...entry, response });
     } catch (err) {
-      console.error(err);
-    } finally {
-      return interval;
+      const message = err instanceof Error ? err.message : `${err}`;
+      output.error(`[${provider.name}] [${trigger}] Failed to send ${formatStatus(input)}: ${message}`);
+      await this.__history.add({ ...entry, error: message });
+      throw err;
+    }
+
+    if (isGitHub) {
+      // Remember what we posted so it isn't mistaken for the user's own status
+      await this.__context?.globalState.update(LAST_POSTED_KEY, {
+        emoji: status.emoji,
+        message: status.message,
+      });
+      this.__lastPosted = input;
+      this.__onDidPostStatus.fire(input);
     }
   }
 
+  // The status last posted to GitHub in this session
+  public get lastPosted(): UserStatus | undefined {
+    return this.__lastPosted;
+  }
+
+  // Start of the current work session, reset when syncing restarts
+  public get startedAt(): Date | undefined {
+    return this.__start?.toDate();
+  }
+
+  /**
+   * Posts a status entered by the user. Automatic updates pause until it
+   * expires or is cleared.
+   */
+  public async setCustomStatus(custom: CustomStatus): Promise<void> {
+    const expires = getExpiryDate(custom.expiry);
+    const status: UserStatus = {
+      emoji: custom.emoji ? `:${custom.emoji}:` : null,
+      message: custom.message,
+      limitedAvailability: custom.busy,
+      expiresAt: expires ? expires.toISOString() : null,
+    };
+
+    this.__custom = { status, until: expires?.getTime() };
+    await this.__context?.globalState.update(CUSTOM_STATUS_KEY, this.__custom);
+    this.scheduleCustomStatusEnd();
+    await this.post(status, "manual");
+  }
+
+  /**
+   * Applies the privacy settings to a message that isn't a template: the
+   * workspace and folder names become their aliases, and like the other
+   * names a template could show, the private label in incognito mode or for
+   * private repositories.
+   */
+  public redactMessage(message: string): string {
+    const workspace = this.workspaceName;
+    const folders = this.__folders ?? [];
+    const document = this.getActiveDocument();
+    const repository = this.__repository;
+    const replacements: { [name: string]: string } = {};
+
+    if (isIncognito() || this.__isPrivate) {
+      const label = getPrivateLabel();
+      [
+        workspace,
+        ...folders.map((folder) => folder.name),
+        document && path.basename(document.fileName),
+        repository?.branch,
+        repository?.owner && `${repository.owner}/${repository.name}`,
+      ].forEach((name) => name && (replacements[name] = label));
+    } else {
+      folders.forEach((folder) => (replacements[folder.name] = getAlias(folder.name) ?? folder.name));
+      if (workspace) {
+        replacements[workspace] = applyAliases(workspace, this.__folders);
+      }
+    }
+    return replaceNames(message, replacements);
+  }
+
+  public get customStatus(): UserStatus | undefined {
+    // Other windows may have set or cleared the custom status since
+    if (this.__context) {
+      this.__custom = this.__context.globalState.get<ActiveCustomStatus>(CUSTOM_STATUS_KEY);
+    }
+    if (this.__custom?.until !== undefined && this.__custom.until <= Date.now()) {
+      this.__custom = undefined;
+    }
+    return this.__custom?.status;
+  }
+
+  // Resumes automatic updates
+  public async clearCustomStatus(): Promise<void> {
+    this.__custom = undefined;
+    if (this.__customTimer) {
+      clearTimeout(this.__customTimer);
+      this.__customTimer = null;
+    }
+    await this.__context?.globalState.update(CUSTOM_STATUS_KEY, undefined);
+    if (this.__start && this.workspaceName) {
+      await this.updateStatus(this.workspaceName, "manual");
+    }
+  }
+
+  private scheduleCustomStatusEnd(): void {
+    if (this.__customTimer) {
+      clearTimeout(this.__customTimer);
+      this.__customTimer = null;
+    }
+    const until = this.__custom?.until;
+    if (until === undefined) {
+      return;
+    }
+    this.__customTimer = setTimeout(() => {
+      this.__customTimer = null;
+      // Another window may have set a new custom status in the meantime
+      if (this.customStatus) {
+        this.scheduleCustomStatusEnd();
+        return;
+      }
+      this.__context?.globalState.update(CUSTOM_STATUS_KEY, undefined);
+      if (this.__start && this.workspaceName) {
+        this.updateStatus(this.workspaceName, "interval");
+      }
+    }, Math.max(until - Date.now(), 0));
+  }
+
+  public get history(): StatusHistory {
+    return this.__history;
+  }
+
+  /**
+   * Sends an earlier status again, to the named provider or everywhere.
+   * Statuses that have expired since get the expiry of a regular update.
+   */
+  public resend(status: UserStatus, provider?: string): Promise<void> {
+    const expired = !!status.expiresAt && new Date(status.expiresAt).getTime() <= Date.now();
+    const update = {
+      ...status,
+      expiresAt: expired
+        ? new Date(OFFSET + Date.now() + this.expires * 60000).toISOString()
+        : status.expiresAt,
+    };
+    if (!provider) {
+      return this.post(update, "manual");
+    }
+
+    this.__triggers.set(update, "manual");
+    const target = this.__providers.find((other) => other.provider.name === provider);
+    return (target ? target.sync : this.__sync).push(update);
+  }
+
+  // The active saved document, unless it belongs to an excluded folder
+  private getActiveDocument(): vscode.TextDocument | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document || document.isUntitled) {
+      return undefined;
+    }
+    if (this.__folders) {
+      const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+      if (folder && !this.__folders.includes(folder)) {
+        return undefined;
+      }
+    }
+    return document;
+  }
+
+  private async getCurrentMeeting(): Promise<CalendarEvent | undefined> {
+    const setting = vscode.workspace.getConfiguration("githubstatus").get<string>("calendarFile");
+    if (!setting) {
+      return undefined;
+    }
+    const file = setting.replace(/^~(?=$|[\\/])/, os.homedir());
+    if (!this.__calendar || this.__calendar.file !== file) {
+      this.__calendar = new Calendar(file);
+    }
+    return this.__calendar.getCurrentEvent();
+  }
+
+  private getMeetingStatus(meeting: CalendarEvent, workspace: string): UserStatus {
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    return {
+      emoji: `:${config.get<string>("meetingEmoji") || "calendar"}:`,
+      message: renderTemplate(config.get<string>("meetingTemplate") || DEFAULT_MEETING_TEMPLATE, {
+        ...this.getTemplateValues(workspace),
+        until: moment(meeting.end).format("HH:mm"),
+        meeting: meeting.summary,
+      }),
+      // Back to the normal status once the meeting is over
+      expiresAt: meeting.end.toISOString(),
+      limitedAvailability: true,
+    };
+  }
+
+  private getFocusStatus(focus: FocusState, workspace: string, duration: string): UserStatus {
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const isFocus = focus.mode === "focus";
+    const template = isFocus
+      ? config.get<string>("focusTemplate") || DEFAULT_FOCUS_TEMPLATE
+      : config.get<string>("breakTemplate") || DEFAULT_BREAK_TEMPLATE;
+    const emoji = isFocus
+      ? config.get<string>("focusEmoji") || "tomato"
+      : config.get<string>("breakEmoji") || "coffee";
+
+    const remaining = this.__focus?.remainingMinutes ?? 0;
+    this.__focusMinutesPosted = remaining;
+    return {
+      emoji: `:${emoji}:`,
+      message: renderTemplate(template, {
+        ...this.getTemplateValues(workspace, duration),
+        remaining: remaining || undefined,
+      }),
+      expiresAt: new Date(focus.endsAt).toISOString(),
+      limitedAvailability: isFocus,
+    };
+  }
+
+  private getActivityTemplate(): string | undefined {
+    const kind = this.__activity?.state.kind;
+    if (!kind || kind === "editing") {
+      return undefined;
+    }
+    const templates = {
+      ...DEFAULT_ACTIVITY_TEMPLATES,
+      ...vscode.workspace.getConfiguration("githubstatus").get<{ [kind: string]: string }>("activityTemplates"),
+    };
+    return templates[kind];
+  }
+
+  private getMatchingRule(workspace: string): StatusRule | undefined {
+    const rules = vscode.workspace
+      .getConfiguration("githubstatus")
+      .get<StatusRule[]>("rules") || [];
+    if (rules.length === 0) {
+      return undefined;
+    }
+
+    const document = this.getActiveDocument();
+    const file = document?.uri.fsPath;
+    return matchRule(rules, {
+      language: document?.languageId ?? this.__currentLanguage,
+      workspace,
+      activity: this.__activity?.state.kind,
+      file,
+      relativeFile: file ? vscode.workspace.asRelativePath(file, false) : undefined,
+    });
+  }
+
+  // Workspaces matched by a `skip` rule get no status at all, idle or default
+  private isSkipped(): boolean {
+    const workspace = this.workspaceName;
+    return !!workspace && !!this.getMatchingRule(workspace)?.skip;
+  }
+
+  private isLeader(): boolean {
+    return !this.__coordinator || this.__coordinator.isLeader;
+  }
+
+  private getTemplateValues(workspace?: string, duration?: string): TemplateValues {
+    const document = this.getActiveDocument();
+    const folderCount = (this.__folders ?? vscode.workspace.workspaceFolders)?.length;
+    // File and branch names can give away as much as the workspace name
+    const redacted = isIncognito() || this.__isPrivate;
+    const kind = this.__activity?.state.kind;
+    const repository = this.__repository;
+
+    return {
+      workspace: redacted
+        ? getPrivateLabel()
+        : workspace && applyAliases(workspace, this.__folders),
+      // Same language the rules and statistics see, the last saved one without
+      // an editor. It says nothing about terminal work.
+      language: kind === "terminal" ? undefined : document?.languageId ?? this.__currentLanguage,
+      duration,
+      file: document && !redacted ? path.basename(document.fileName) : undefined,
+      // Only from synced folders without an alias, like the repository
+      branch: redacted ? undefined : repository?.branch,
+      repository: redacted || !repository?.owner ? undefined : `${repository.owner}/${repository.name}`,
+      pullRequest: redacted ? undefined : repository?.pullRequest?.number,
+      folderCount: folderCount || undefined,
+      activity: kind && getActivityLabel(kind),
+      debugType: this.__activity?.state.debugType,
+      task: redacted || kind === "notebook" ? undefined : this.__activity?.state.name,
+      notebook: redacted || kind !== "notebook" ? undefined : this.__activity?.state.name,
+    };
+  }
+
   public async setIdle(): Promise<void> {
+    this.__isIdle = true;
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    if (!this.isLeader() || this.isUserBusy() || this.customStatus || this.isSkipped()) {
+      return;
+    }
+    // Focus sessions, meetings and off hours replace the idle status
+    if (
+      this.__focus?.current ||
+      (await this.getCurrentMeeting()) ||
+      !isWithinSchedule(config.get<Schedule>("schedule"))
+    ) {
+      return;
+    }
+
+    const original = this.getOriginalStatus();
+    if (original && vscode.workspace.getConfiguration("githubstatus").get<boolean>("restoreOnIdle")) {
+      this.postToGitHub(original, "idle");
+      return;
+    }
+
     const emoji = vscode.workspace
       .getConfiguration("githubstatus")
       .get("emojiDefault") as string || "zzz";
 
+    const template = vscode.workspace
+      .getConfiguration("githubstatus")
+      .get<string>("idleTemplate") || DEFAULT_IDLE_TEMPLATE;
+
     const status: UserStatus = {
       emoji: `:${emoji}:`,
-      message: "Idle - Away from keyboard",
+      message: renderTemplate(template, this.getTemplateValues(this.workspaceName)),
       expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour expiry
     };
 
-    try {
-      await this.__api(changeUserStatusMutation, { request: {}, status });
-    } catch (err) {
-      console.error(err);
-    }
+    this.post(status, "idle");
   }
 
   public resetActivity(): void {
-    this.__lastActivity = moment();
     this.__isIdle = false;
-    this.__start = undefined; // Reset work timer when resuming from idle
+    this.__start = undefined; // Restart the work timer
+    if (this.__meetingTimer) {
+      clearTimeout(this.__meetingTimer);
+      this.__meetingTimer = null;
+    }
+  }
+
+  // Called by the controller when the user is back
+  public clearIdle(): void {
+    this.__isIdle = false;
   }
 
   public async setDefault(): Promise<void> {
-    const message = vscode.workspace
-      .getConfiguration("githubstatus")
-      .get("default") as string;
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    // Custom statuses clear themselves when they expire
+    if (this.isUserBusy() || this.customStatus || this.isSkipped()) {
+      return;
+    }
+
+    // Put back the status the user had before we started
+    const original = this.getOriginalStatus();
+    if (original && config.get<boolean>("restoreOriginalStatus", true)) {
+      await this.postToGitHub(original, "deactivate", false);
+      return;
+    }
+
+    const template = config.get<string>("defaultTemplate") || config.get<string>("default");
+    if (!template) {
+      return;
+    }
+    const message = renderTemplate(template, this.getTemplateValues(this.workspaceName));
     if (!message) {
       return;
     }
@@ -391,17 +1311,16 @@ export default class {
       message,
     };
 
-    try {
-      await this.__api(changeUserStatusMutation, { request: {}, status });
-    } catch (err) {
-      console.error(err);
-    }
+    // Don't hold up shutdown with retries
+    await this.post(status, "deactivate", false);
   }
 }
 
-interface UserStatus {
+export interface UserStatus {
   emoji?: string | null;
   expiresAt?: string | null;
   limitedAvailability?: boolean;
   message?: string | null;
+  // Only members of this organization see the status, public when null
+  organizationId?: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import * as vscode from "vscode";
+import type { UserStatus } from "./github";
+
+const HISTORY_KEY = "githubstatus.statusHistory";
+const DEFAULT_HISTORY_SIZE = 50;
+
+// What caused a status to be posted
+export type StatusTrigger = "start" | "interval" | "activity" | "branch" | "idle" | "deactivate" | "manual";
+
+export interface StatusHistoryEntry {
+  // ISO timestamp of the attempt
+  time: string;
+  trigger: StatusTrigger;
+  // Name of the provider the status was sent to, GitHub for older entries
+  provider?: string;
+  status: UserStatus;
+  // Response of GitHub, or the error when the attempt failed
+  response?: unknown;
+  error?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Keeps the last `githubstatus.historySize` status updates, newest first, in
+ * the global state so they survive restarts.
+ */
+export class StatusHistory {
+  private __context?: vscode.ExtensionContext;
+  private __entries: StatusHistoryEntry[];
+
+  constructor(context?: vscode.ExtensionContext) {
+    this.__context = context;
+    this.__entries = context?.globalState.get<StatusHistoryEntry[]>(HISTORY_KEY) ?? [];
+  }
+
+  public get entries(): readonly StatusHistoryEntry[] {
+    return this.__entries;
+  }
+
+  public async add(entry: StatusHistoryEntry): Promise<void> {
+    const size = vscode.workspace
+      .getConfiguration("githubstatus")
+      .get<number>("historySize") ?? DEFAULT_HISTORY_SIZE;
+    this.__entries = [entry, ...this.__entries].slice(0, Math.max(size, 0));
+    await this.__context?.globalState.update(HISTORY_KEY, this.__entries);
+  }
+}
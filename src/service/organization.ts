@@ -0,0 +1,30 @@
+import { normalizeRemoteUrl } from "./git";
+
+export interface Organization {
+  id: string;
+  login: string;
+  name: string | null;
+}
+
+/**
+ * Finds the organization a status should be scoped to from the remotes of a
+ * workspace. Keys of `map` are remote prefixes such as `github.com/acme`,
+ * the longest matching prefix wins.
+ */
+export function matchOrganization(
+  map: { [remote: string]: string },
+  remotes: string[]
+): string | undefined {
+  const prefixes = Object.keys(map)
+    .map((key) => ({ prefix: normalizeRemoteUrl(key).toLowerCase(), login: map[key] }))
+    .filter(({ prefix, login }) => prefix && login)
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+
+  for (const remote of remotes.map((url) => normalizeRemoteUrl(url).toLowerCase())) {
+    const match = prefixes.find(({ prefix }) => remote === prefix || remote.startsWith(`${prefix}/`));
+    if (match) {
+      return match.login;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,26 @@
+import * as vscode from "vscode";
+import type { UserStatus } from "./github";
+
+let channel: vscode.LogOutputChannel | undefined;
+
+export function getOutputChannel(): vscode.LogOutputChannel {
+  if (!channel) {
+    channel = vscode.window.createOutputChannel("GitHub Status", { log: true });
+  }
+  return channel;
+}
+
+/**
+ * Describes a status in one line, e.g.
+ * `:computer: Working on api (expires 15:30, busy)`.
+ */
+export function formatStatus(status: UserStatus): string {
+  const details = [
+    status.expiresAt && `expires ${new Date(status.expiresAt).toLocaleTimeString()}`,
+    status.limitedAvailability && "busy",
+    status.organizationId && `visible to organization ${status.organizationId}`,
+  ].filter((detail) => !!detail);
+
+  const text = [status.emoji, status.message].filter((part) => !!part).join(" ") || "(cleared)";
+  return details.length > 0 ? `${text} (${details.join(", ")})` : text;
+}
@@ -0,0 +1,62 @@
+import * as vscode from "vscode";
+
+const DEFAULT_PRIVATE_LABEL = "a private project";
+
+// Incognito only lasts for the current session
+let incognito = false;
+
+export function isIncognito(): boolean {
+  return incognito;
+}
+
+export function setIncognito(value: boolean): void {
+  incognito = value;
+}
+
+export function getPrivateLabel(): string {
+  return (
+    vscode.workspace.getConfiguration("githubstatus").get<string>("privateLabel") ||
+    DEFAULT_PRIVATE_LABEL
+  );
+}
+
+export function getAlias(name: string): string | undefined {
+  const aliases =
+    vscode.workspace.getConfiguration("githubstatus").get<{ [name: string]: string }>("aliases") || {};
+  const key = Object.keys(aliases).find((alias) => alias.toLowerCase() === name.toLowerCase());
+  return key ? aliases[key] : undefined;
+}
+
+/**
+ * Replaces workspace and folder names with their configured aliases. Names
+ * of multi-root workspaces that only sync some folders are built from the
+ * aliases of those folders.
+ */
+export function applyAliases(
+  workspace: string,
+  folders?: readonly vscode.WorkspaceFolder[]
+): string {
+  const alias = getAlias(workspace);
+  if (alias) {
+    return alias;
+  }
+  if (folders && folders.length > 0 && workspace !== vscode.workspace.name) {
+    return folders.map((folder) => getAlias(folder.name) ?? folder.name).join(", ");
+  }
+  return workspace;
+}
+
+/**
+ * Replaces names in text that isn't a template, such as statuses from other
+ * extensions. Longer names go first, so a folder named like part of the
+ * workspace doesn't leave the rest of the workspace name behind.
+ */
+export function replaceNames(text: string, replacements: { [name: string]: string }): string {
+  return Object.keys(replacements)
+    .filter((name) => name && name !== replacements[name])
+    .sort((a, b) => b.length - a.length)
+    .reduce((result, name) => {
+      const pattern = new RegExp(name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+      return result.replace(pattern, () => replacements[name]);
+    }, text);
+}
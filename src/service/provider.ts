@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import type { UserStatus } from "./github";
+
+const TOKEN_SECRET_PREFIX = "githubstatus.providerToken.";
+
+export type ProviderType = "gitlab" | "gitea" | "slack";
+
+// Entry of the `githubstatus.providers` setting
+export interface ProviderConfig {
+  // Unique name, also used to store the token
+  name: string;
+  type: ProviderType;
+  baseUrl?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Posts statuses to a service. The message, timers and idle detection are
+ * handled by the GitHub service, providers only transport the result.
+ */
+export interface StatusProvider {
+  readonly type: ProviderType | "github";
+  readonly name: string;
+  // Resolves with the response of the service, rejects with a ProviderError
+  setStatus(status: UserStatus): Promise<unknown>;
+}
+
+/**
+ * Failed provider request. `status` and `headers` let the status sync tell
+ * invalid tokens and rate limits apart from other failures.
+ */
+export class ProviderError extends Error {
+  public status?: number;
+  public headers?: { [key: string]: string };
+
+  constructor(message: string, status?: number, headers?: { [key: string]: string }) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export async function requestJson(url: string, init: RequestInit): Promise<unknown> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "content-type": "application/json", accept: "application/json", ...init.headers },
+  });
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch (error) {
+    // Keep the plain text, e.g. for HTML error pages
+  }
+
+  if (!response.ok) {
+    const headers: { [key: string]: string } = {};
+    response.headers.forEach((value, key) => (headers[key] = value));
+    const message = (body as { message?: unknown; error?: unknown } | undefined)?.message ??
+      (body as { error?: unknown } | undefined)?.error ??
+      response.statusText;
+    throw new ProviderError(
+      `${response.status} ${typeof message === "string" ? message : JSON.stringify(message)}`,
+      response.status,
+      headers
+    );
+  }
+  return body;
+}
+
+// Emoji name without colons, e.g. computer for :computer:
+export function emojiName(status: UserStatus): string | undefined {
+  return status.emoji?.replace(/^:|:$/g, "") || undefined;
+}
+
+export function getProviderConfigs(): ProviderConfig[] {
+  return (vscode.workspace.getConfiguration("githubstatus").get<ProviderConfig[]>("providers") || [])
+    .filter((config) => config.name && config.type && config.enabled !== false);
+}
+
+export function getProviderToken(context: vscode.ExtensionContext, name: string): Thenable<string | undefined> {
+  return context.secrets.get(TOKEN_SECRET_PREFIX + name);
+}
+
+export async function storeProviderToken(
+  context: vscode.ExtensionContext,
+  name: string,
+  token: string
+): Promise<void> {
+  await context.secrets.store(TOKEN_SECRET_PREFIX + name, token);
+}
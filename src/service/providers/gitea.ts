@@ -0,0 +1,29 @@
+import type { UserStatus } from "../github";
+import { requestJson, StatusProvider } from "../provider";
+
+/**
+ * Gitea has no user status, so the status is shown as the profile
+ * description through `PATCH /api/v1/user/settings`. Descriptions don't
+ * expire, the default status replaces it when syncing stops.
+ */
+export class GiteaProvider implements StatusProvider {
+  public readonly type = "gitea";
+  public readonly name: string;
+  private __baseUrl: string;
+  private __token: string;
+
+  constructor(name: string, token: string, baseUrl: string) {
+    this.name = name;
+    this.__token = token;
+    this.__baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  public setStatus(status: UserStatus): Promise<unknown> {
+    const description = [status.emoji, status.message].filter((part) => !!part).join(" ");
+    return requestJson(`${this.__baseUrl}/api/v1/user/settings`, {
+      method: "PATCH",
+      headers: { authorization: `token ${this.__token}` },
+      body: JSON.stringify({ description }),
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { graphql } from "@octokit/graphql/dist-types/types";
+import type { UserStatus } from "../github";
+import { StatusProvider } from "../provider";
+
+const changeUserStatusMutation = `
+  mutation ($status: ChangeUserStatusInput!) {
+    changeUserStatus(input: $status) {
+      status {
+        emoji
+        expiresAt
+        limitedAvailability: indicatesLimitedAvailability
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Sets the GitHub status with the `changeUserStatus` mutation. Takes the API
+ * as a function since it changes when the user signs in.
+ */
+export class GitHubProvider implements StatusProvider {
+  public readonly type = "github";
+  public readonly name = "GitHub";
+  private __getApi: () => graphql;
+
+  constructor(getApi: () => graphql) {
+    this.__getApi = getApi;
+  }
+
+  public setStatus(status: UserStatus): Promise<unknown> {
+    return this.__getApi()(changeUserStatusMutation, { request: {}, status });
+  }
+}
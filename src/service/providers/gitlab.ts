@@ -0,0 +1,55 @@
+import type { UserStatus } from "../github";
+import { emojiName, requestJson, StatusProvider } from "../provider";
+
+// Durations GitLab accepts for clearing a status, in minutes
+const CLEAR_AFTER: [number, string][] = [
+  [30, "30_minutes"],
+  [3 * 60, "3_hours"],
+  [8 * 60, "8_hours"],
+  [24 * 60, "1_day"],
+  [3 * 24 * 60, "3_days"],
+  [7 * 24 * 60, "7_days"],
+  [30 * 24 * 60, "30_days"],
+];
+
+/**
+ * Picks the shortest duration GitLab supports that keeps the status up until
+ * `expiresAt`.
+ */
+export function getClearStatusAfter(expiresAt: string | null | undefined, now = Date.now()): string | undefined {
+  if (!expiresAt) {
+    return undefined;
+  }
+  const minutes = (new Date(expiresAt).getTime() - now) / 60000;
+  return (CLEAR_AFTER.find(([limit]) => minutes <= limit) ?? CLEAR_AFTER[CLEAR_AFTER.length - 1])[1];
+}
+
+/**
+ * Sets the status through `PUT /api/v4/user/status` of GitLab.com or a
+ * self-hosted GitLab instance.
+ */
+export class GitLabProvider implements StatusProvider {
+  public readonly type = "gitlab";
+  public readonly name: string;
+  private __baseUrl: string;
+  private __token: string;
+
+  constructor(name: string, token: string, baseUrl = "https://gitlab.com") {
+    this.name = name;
+    this.__token = token;
+    this.__baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  public setStatus(status: UserStatus): Promise<unknown> {
+    return requestJson(`${this.__baseUrl}/api/v4/user/status`, {
+      method: "PUT",
+      headers: { "private-token": this.__token },
+      body: JSON.stringify({
+        emoji: emojiName(status) ?? null,
+        message: status.message ?? null,
+        availability: status.limitedAvailability ? "busy" : "not_set",
+        clear_status_after: getClearStatusAfter(status.expiresAt),
+      }),
+    });
+  }
+}
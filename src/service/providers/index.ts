@@ -0,0 +1,18 @@
+import { ProviderConfig, StatusProvider } from "../provider";
+import { GiteaProvider } from "./gitea";
+import { GitLabProvider } from "./gitlab";
+import { SlackProvider } from "./slack";
+
+export function createProvider(config: ProviderConfig, token: string): StatusProvider | undefined {
+  switch (config.type) {
+    case "gitlab":
+      return new GitLabProvider(config.name, token, config.baseUrl || undefined);
+    case "gitea":
+      // Gitea is always self-hosted
+      return config.baseUrl ? new GiteaProvider(config.name, token, config.baseUrl) : undefined;
+    case "slack":
+      return new SlackProvider(config.name, token, config.baseUrl || undefined);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,43 @@
+import type { UserStatus } from "../github";
+import { ProviderError, requestJson, StatusProvider } from "../provider";
+
+/**
+ * Sets the Slack status through `users.profile.set`. Needs a user token with
+ * the `users.profile:write` scope.
+ */
+export class SlackProvider implements StatusProvider {
+  public readonly type = "slack";
+  public readonly name: string;
+  private __baseUrl: string;
+  private __token: string;
+
+  constructor(name: string, token: string, baseUrl = "https://slack.com/api") {
+    this.name = name;
+    this.__token = token;
+    this.__baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  public async setStatus(status: UserStatus): Promise<unknown> {
+    const response = (await requestJson(`${this.__baseUrl}/users.profile.set`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${this.__token}`, "content-type": "application/json; charset=utf-8" },
+      body: JSON.stringify({
+        profile: {
+          status_text: status.message ?? "",
+          status_emoji: status.emoji ?? "",
+          status_expiration: status.expiresAt ? Math.floor(new Date(status.expiresAt).getTime() / 1000) : 0,
+        },
+      }),
+    })) as { ok: boolean; error?: string };
+
+    // Slack reports errors with a 200 response
+    if (!response.ok) {
+      const unauthorized = ["invalid_auth", "not_authed", "token_revoked", "token_expired", "missing_scope"];
+      throw new ProviderError(
+        `Slack: ${response.error ?? "unknown error"}`,
+        unauthorized.includes(response.error ?? "") ? 401 : undefined
+      );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,70 @@
+import { minimatch } from "minimatch";
+
+export interface StatusRule {
+  // Conditions, all of the given ones have to match
+  language?: string | string[];
+  workspace?: string;
+  file?: string;
+  activity?: string | string[];
+  // Overrides
+  emoji?: string;
+  template?: string;
+  busy?: boolean;
+  skip?: boolean;
+}
+
+export interface RuleContext {
+  language?: string;
+  workspace?: string;
+  // editing, debugging, testing, building, reviewing, terminal or notebook
+  activity?: string;
+  // Absolute path of the active file
+  file?: string;
+  // Path of the active file relative to its workspace folder
+  relativeFile?: string;
+}
+
+const toPosix = (value: string) => value.replace(/\\/g, "/");
+
+function matchesAny(condition: string | string[] | undefined, value: string | undefined): boolean {
+  if (condition === undefined) {
+    return true;
+  }
+  const values = Array.isArray(condition) ? condition : [condition];
+  return !!value && values.includes(value);
+}
+
+function matchesWorkspace(rule: StatusRule, context: RuleContext): boolean {
+  if (rule.workspace === undefined) {
+    return true;
+  }
+  try {
+    return !!context.workspace && new RegExp(rule.workspace, "i").test(context.workspace);
+  } catch (error) {
+    console.error(`Invalid workspace pattern in status rule: ${rule.workspace}`, error);
+    return false;
+  }
+}
+
+function matchesFile(rule: StatusRule, context: RuleContext): boolean {
+  if (rule.file === undefined) {
+    return true;
+  }
+  const pattern = toPosix(rule.file);
+  return [context.file, context.relativeFile].some(
+    (file) => !!file && minimatch(toPosix(file), pattern, { dot: true, nocase: process.platform === "win32" })
+  );
+}
+
+/**
+ * Returns the first rule whose conditions all match the current state.
+ */
+export function matchRule(rules: StatusRule[], context: RuleContext): StatusRule | undefined {
+  return rules.find(
+    (rule) =>
+      matchesAny(rule.language, context.language) &&
+      matchesAny(rule.activity, context.activity) &&
+      matchesWorkspace(rule, context) &&
+      matchesFile(rule, context)
+  );
+}
@@ -0,0 +1,96 @@
+export interface Schedule {
+  // IANA time zone such as Europe/Berlin, defaults to the system time zone
+  timezone?: string;
+  // Time ranges per weekday, e.g. { "mon": ["09:00-12:00", "13:00-17:00"] }
+  days?: { [day: string]: string[] };
+}
+
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Returns the local date and time of `date` in the given time zone. Falls
+ * back to the system time zone for unknown zones.
+ */
+export function getWallTime(date: Date, timezone?: string): WallTime {
+  if (timezone) {
+    try {
+      const text = date.toLocaleString("en-US", {
+        timeZone: timezone,
+        hour12: false,
+        weekday: "short",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+      // e.g. "Mon, 10/19/2026, 15:30:00"
+      const match = text.match(/^(\w{3}), (\d{2})\/(\d{2})\/(\d{4}),? (\d{2}):(\d{2}):(\d{2})$/);
+      if (match) {
+        return {
+          weekday: WEEKDAYS.indexOf(match[1].toLowerCase()),
+          month: Number(match[2]),
+          day: Number(match[3]),
+          year: Number(match[4]),
+          hour: Number(match[5]) % 24,
+          minute: Number(match[6]),
+          second: Number(match[7]),
+        };
+      }
+    } catch (error) {
+      console.error(`Unknown time zone ${timezone}:`, error);
+    }
+  }
+
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds(),
+    weekday: date.getDay(),
+  };
+}
+
+const parseTime = (value: string) => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+};
+
+/**
+ * Checks whether `date` falls into one of the working hours of the schedule.
+ * Without any configured days every time is considered working hours.
+ */
+export function isWithinSchedule(schedule: Schedule | undefined, date = new Date()): boolean {
+  const days = schedule?.days;
+  if (!days || Object.keys(days).length === 0) {
+    return true;
+  }
+
+  const time = getWallTime(date, schedule?.timezone);
+  const key = Object.keys(days).find(
+    (day) => day.toLowerCase().slice(0, 3) === WEEKDAYS[time.weekday]
+  );
+  const minutes = time.hour * 60 + time.minute;
+
+  return (key ? days[key] : []).some((range) => {
+    const [start, end] = range.split("-").map(parseTime);
+    if (start === undefined || end === undefined) {
+      return false;
+    }
+    return minutes >= start && minutes < end;
+  });
+}
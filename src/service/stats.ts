@@ -0,0 +1,146 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import moment from "moment";
+import type { WindowCoordinator } from "./coordinator";
+
+const STATS_FILE = "statistics.json";
+const TICK_INTERVAL = 60000;
+
+export interface StatsEntry {
+  // Local date as YYYY-MM-DD
+  date: string;
+  workspace: string;
+  language: string;
+  activeMinutes: number;
+  idleMinutes: number;
+}
+
+export interface Activity {
+  workspace: string;
+  language?: string;
+  idle: boolean;
+}
+
+export interface StatsTotal {
+  key: string;
+  activeMinutes: number;
+  idleMinutes: number;
+}
+
+const UNKNOWN_LANGUAGE = "unknown";
+
+/**
+ * Records active and idle minutes per day, workspace and language in the
+ * global storage folder. Only the most recently focused window records, so
+ * windows don't overwrite each other's updates or count the same minute twice.
+ */
+export class StatsTracker implements vscode.Disposable {
+  private __file: string;
+  private __timer: NodeJS.Timeout | null = null;
+  private __getActivity: () => Activity | undefined;
+  private __coordinator?: WindowCoordinator;
+  private __queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    context: vscode.ExtensionContext,
+    getActivity: () => Activity | undefined,
+    coordinator?: WindowCoordinator
+  ) {
+    this.__file = path.join(context.globalStorageUri.fsPath, STATS_FILE);
+    this.__getActivity = getActivity;
+    this.__coordinator = coordinator;
+  }
+
+  public start(): void {
+    if (!this.__timer) {
+      this.__timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+  }
+
+  public dispose(): void {
+    if (this.__timer) {
+      clearInterval(this.__timer);
+      this.__timer = null;
+    }
+  }
+
+  public async getEntries(): Promise<StatsEntry[]> {
+    try {
+      const content = await fs.promises.readFile(this.__file, "utf8");
+      const entries = JSON.parse(content) as StatsEntry[];
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private tick(): void {
+    if (this.__coordinator && !this.__coordinator.isLeader) {
+      return;
+    }
+    const activity = this.__getActivity();
+    if (activity) {
+      this.record(activity, 1).catch((error) => console.error("Failed to record statistics:", error));
+    }
+  }
+
+  private record(activity: Activity, minutes: number): Promise<void> {
+    const run = this.__queue.then(async () => {
+      const date = moment().format("YYYY-MM-DD");
+      const language = activity.language || UNKNOWN_LANGUAGE;
+      const entries = await this.getEntries();
+
+      let entry = entries.find(
+        (e) => e.date === date && e.workspace === activity.workspace && e.language === language
+      );
+      if (!entry) {
+        entry = { date, workspace: activity.workspace, language, activeMinutes: 0, idleMinutes: 0 };
+        entries.push(entry);
+      }
+      if (activity.idle) {
+        entry.idleMinutes += minutes;
+      } else {
+        entry.activeMinutes += minutes;
+      }
+
+      await fs.promises.mkdir(path.dirname(this.__file), { recursive: true });
+      const temp = `${this.__file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, JSON.stringify(entries), "utf8");
+      await fs.promises.rename(temp, this.__file);
+    });
+    this.__queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Sums up entries by the given key, sorted by active time.
+ */
+export function summarize(entries: StatsEntry[], keyOf: (entry: StatsEntry) => string): StatsTotal[] {
+  const totals = new Map<string, StatsTotal>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const total = totals.get(key) ?? { key, activeMinutes: 0, idleMinutes: 0 };
+    total.activeMinutes += entry.activeMinutes;
+    total.idleMinutes += entry.idleMinutes;
+    totals.set(key, total);
+  }
+  return [...totals.values()].sort((a, b) => b.activeMinutes - a.activeMinutes);
+}
+
+export function toCsv(entries: StatsEntry[]): string {
+  const escape = (value: string | number) => {
+    const text = `${value}`;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = entries
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date) || a.workspace.localeCompare(b.workspace))
+    .map((entry) =>
+      [entry.date, entry.workspace, entry.language, entry.activeMinutes, entry.idleMinutes]
+        .map(escape)
+        .join(",")
+    );
+  return ["date,workspace,language,activeMinutes,idleMinutes", ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,190 @@
+import * as vscode from "vscode";
+import type { UserStatus } from "./github";
+
+export type StatusTransport = (status: UserStatus) => Promise<unknown>;
+
+export type SyncState = "pending" | "synced" | "failed" | "unauthorized";
+
+export interface SyncStateChange {
+  state: SyncState;
+  error?: unknown;
+  lastSync?: Date;
+}
+
+export interface SyncOptions {
+  // Retries after the first failed attempt
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  // Injectable for tests
+  delay?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export type ErrorKind = "unauthorized" | "rateLimited" | "failed";
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  // Milliseconds until the request may be retried, when known
+  retryAfter?: number;
+}
+
+interface PendingUpdate {
+  status: UserStatus;
+  retry: boolean;
+  resolve: () => void;
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const header = (headers: { [key: string]: unknown } | undefined, name: string) => {
+  const value = headers?.[name];
+  return value === undefined || value === null ? undefined : `${value}`;
+};
+
+/**
+ * Works out whether a failed request was caused by invalid credentials or
+ * rate limiting, based on the errors thrown by `@octokit/graphql`.
+ */
+export function classifyError(error: unknown, now = Date.now()): ClassifiedError {
+  const err = (error ?? {}) as {
+    status?: number;
+    message?: string;
+    headers?: { [key: string]: unknown };
+    response?: { headers?: { [key: string]: unknown } };
+    errors?: { type?: string }[];
+  };
+  const headers = err.headers ?? err.response?.headers;
+
+  if (err.status === 401 || /bad credentials/i.test(err.message ?? "")) {
+    return { kind: "unauthorized" };
+  }
+
+  const retryAfter = header(headers, "retry-after");
+  const remaining = header(headers, "x-ratelimit-remaining");
+  const reset = header(headers, "x-ratelimit-reset");
+  const isRateLimited =
+    err.errors?.some((e) => e.type === "RATE_LIMITED") ||
+    err.status === 429 ||
+    ((err.status === 403 || err.errors) && (retryAfter !== undefined || remaining === "0"));
+
+  if (isRateLimited) {
+    if (retryAfter !== undefined && !isNaN(Number(retryAfter))) {
+      return { kind: "rateLimited", retryAfter: Number(retryAfter) * 1000 };
+    }
+    if (reset !== undefined && !isNaN(Number(reset))) {
+      return { kind: "rateLimited", retryAfter: Math.max(Number(reset) * 1000 - now, 0) };
+    }
+    return { kind: "rateLimited" };
+  }
+
+  return { kind: "failed" };
+}
+
+/**
+ * Sends status updates one at a time with exponential backoff. Only the
+ * newest pending status is kept, older ones that haven't been sent yet are
+ * dropped.
+ */
+export class StatusSync implements vscode.Disposable {
+  private __transport: StatusTransport;
+  private __maxRetries: number;
+  private __baseDelay: number;
+  private __maxDelay: number;
+  private __delay: (ms: number) => Promise<void>;
+  private __now: () => number;
+  private __pending?: PendingUpdate;
+  private __running = false;
+  private __disposed = false;
+  private __lastSync?: Date;
+  private __onDidChangeState = new vscode.EventEmitter<SyncStateChange>();
+
+  public readonly onDidChangeState = this.__onDidChangeState.event;
+
+  constructor(transport: StatusTransport, options: SyncOptions = {}) {
+    this.__transport = transport;
+    this.__maxRetries = options.maxRetries ?? 5;
+    this.__baseDelay = options.baseDelay ?? 5000;
+    this.__maxDelay = options.maxDelay ?? 5 * 60000;
+    this.__delay = options.delay ?? wait;
+    this.__now = options.now ?? Date.now;
+  }
+
+  public get lastSync(): Date | undefined {
+    return this.__lastSync;
+  }
+
+  /**
+   * Queues a status update, replacing any update that hasn't been sent yet.
+   * Resolves once the status was sent, dropped or given up on. Pass
+   * `retry: false` for updates that shouldn't be retried, e.g. on shutdown.
+   */
+  public push(status: UserStatus, retry = true): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if (this.__disposed) {
+        resolve();
+        return;
+      }
+      this.__pending?.resolve();
+      this.__pending = { status, retry, resolve };
+      this.run();
+    });
+  }
+
+  public dispose(): void {
+    this.__disposed = true;
+    this.__pending?.resolve();
+    this.__pending = undefined;
+    this.__onDidChangeState.dispose();
+  }
+
+  private async run(): Promise<void> {
+    if (this.__running) {
+      return;
+    }
+    this.__running = true;
+
+    let attempt = 0;
+    while (this.__pending && !this.__disposed) {
+      const update = this.__pending;
+      this.__pending = undefined;
+      this.__onDidChangeState.fire({ state: "pending", lastSync: this.__lastSync });
+
+      try {
+        await this.__transport(update.status);
+        attempt = 0;
+        this.__lastSync = new Date(this.__now());
+        this.__onDidChangeState.fire({ state: "synced", lastSync: this.__lastSync });
+        update.resolve();
+        continue;
+      } catch (error) {
+        const { kind, retryAfter } = classifyError(error, this.__now());
+        if (kind === "unauthorized") {
+          // Retrying won't help until the user signs in again
+          this.__onDidChangeState.fire({ state: "unauthorized", error, lastSync: this.__lastSync });
+          update.resolve();
+          continue;
+        }
+
+        this.__onDidChangeState.fire({ state: "failed", error, lastSync: this.__lastSync });
+        if (!update.retry || attempt >= this.__maxRetries) {
+          attempt = 0;
+          update.resolve();
+          continue;
+        }
+
+        const backoff = Math.min(this.__baseDelay * 2 ** attempt, this.__maxDelay);
+        attempt++;
+        // Retry unless a newer status comes in while waiting
+        if (this.__pending) {
+          update.resolve();
+        } else {
+          this.__pending = update;
+        }
+        await this.__delay(kind === "rateLimited" && retryAfter !== undefined ? retryAfter : backoff);
+      }
+    }
+
+    this.__running = false;
+  }
+}
@@ -0,0 +1,85 @@
+export interface TeammateStatus {
+  emoji: string | null;
+  expiresAt: string | null;
+  indicatesLimitedAvailability: boolean;
+  message: string | null;
+}
+
+export interface Teammate {
+  login: string;
+  name: string | null;
+  url: string;
+  status: TeammateStatus | null;
+}
+
+// Team given as `org/team-slug`
+export interface TeamRef {
+  organization: string;
+  slug: string;
+}
+
+const teammateFields = `
+  login
+  name
+  url
+  status {
+    emoji
+    expiresAt
+    indicatesLimitedAvailability
+    message
+  }
+`;
+
+export const teamMembersQuery = `
+  query ($organization: String!, $slug: String!) {
+    organization(login: $organization) {
+      team(slug: $slug) {
+        members(first: 100) {
+          nodes {${teammateFields}}
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Builds a query looking up several users at once, with one `$loginN`
+ * variable and one `userN` field per login.
+ */
+export function buildUsersQuery(count: number): string {
+  const variables = Array.from({ length: count }, (_, i) => `$login${i}: String!`);
+  const fields = Array.from(
+    { length: count },
+    (_, i) => `user${i}: user(login: $login${i}) {${teammateFields}}`
+  );
+  return `query (${variables.join(", ")}) {\n${fields.join("\n")}\n}`;
+}
+
+export function parseTeam(value: string | undefined): TeamRef | undefined {
+  const match = value?.trim().match(/^@?([\w.-]+)\/([\w.-]+)$/);
+  return match ? { organization: match[1], slug: match[2] } : undefined;
+}
+
+// Drops statuses that expired since they were fetched, and empty ones
+export function getActiveStatus(status: TeammateStatus | null, now = Date.now()): TeammateStatus | null {
+  if (!status || (!status.message && !status.emoji)) {
+    return null;
+  }
+  if (status.expiresAt && Date.parse(status.expiresAt) <= now) {
+    return null;
+  }
+  return status;
+}
+
+/**
+ * Lists teammates with a status first, then by name. Logins are unique, so
+ * duplicates from the team and the configured users are merged.
+ */
+export function sortTeammates(teammates: Teammate[]): Teammate[] {
+  const unique = new Map<string, Teammate>();
+  teammates.forEach((teammate) => unique.set(teammate.login.toLowerCase(), teammate));
+  const label = (teammate: Teammate) => (teammate.name || teammate.login).toLowerCase();
+  return [...unique.values()].sort(
+    (a, b) => Number(!a.status) - Number(!b.status) || label(a).localeCompare(label(b))
+  );
+}
@@ -0,0 +1,214 @@
+// GitHub rejects status messages longer than this
+export const STATUS_MESSAGE_LIMIT = 80;
+
+// Placeholders ordered from least to most important. When a rendered message
+// is too long, values are shortened (and dropped if optional) in this order.
+const PRIORITY = [
+  "meeting",
+  "file",
+  "notebook",
+  "task",
+  "debugType",
+  "pullRequest",
+  "branch",
+  "language",
+  "folderCount",
+  "duration",
+  "activity",
+  "remaining",
+  "until",
+  "repository",
+  "workspace",
+];
+
+const ELLIPSIS = "…";
+const MIN_VALUE_LENGTH = 6;
+
+export interface TemplateValues {
+  [key: string]: string | number | undefined | null;
+}
+
+interface TextNode {
+  type: "text";
+  value: string;
+}
+
+interface PlaceholderNode {
+  type: "placeholder";
+  name: string;
+}
+
+interface SectionNode {
+  type: "section";
+  children: (TextNode | PlaceholderNode)[];
+}
+
+type TemplateNode = TextNode | PlaceholderNode | SectionNode;
+
+// Counts code points, so an emoji or another astral character counts once
+export const messageLength = (value: string) => [...value].length;
+
+/**
+ * Parses a template such as `Working on {workspace}[ in {language}]`.
+ * `{name}` is a placeholder, `[...]` is a conditional section that is removed
+ * when any placeholder inside it is empty. Use `\[`, `\]`, `\{` and `\}` for
+ * literal brackets.
+ */
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  let section: SectionNode | null = null;
+  let text = "";
+
+  const target = () => (section ? section.children : root);
+  const flush = () => {
+    if (text) {
+      target().push({ type: "text", value: text });
+      text = "";
+    }
+  };
+
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+    if (char === "\\" && i + 1 < template.length) {
+      text += template[++i];
+    } else if (char === "{") {
+      const end = template.indexOf("}", i);
+      if (end === -1) {
+        text += template.slice(i);
+        break;
+      }
+      flush();
+      target().push({ type: "placeholder", name: template.slice(i + 1, end).trim() });
+      i = end;
+    } else if (char === "[" && !section) {
+      flush();
+      section = { type: "section", children: [] };
+    } else if (char === "]" && section) {
+      flush();
+      root.push(section);
+      section = null;
+    } else {
+      text += char;
+    }
+  }
+
+  flush();
+  if (section) {
+    // Unterminated section, keep it as plain text
+    root.push({ type: "text", value: "[" }, ...section.children);
+  }
+  return root;
+}
+
+const valueOf = (values: TemplateValues, name: string): string => {
+  const value = values[name];
+  return value === undefined || value === null ? "" : `${value}`;
+};
+
+function render(nodes: TemplateNode[], values: TemplateValues): string {
+  return renderNodes(nodes, values).replace(/\s+/g, " ").trim();
+}
+
+function renderNodes(nodes: TemplateNode[], values: TemplateValues): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "placeholder":
+          return valueOf(values, node.name);
+        case "section":
+          if (
+            node.children.some(
+              (child) => child.type === "placeholder" && !valueOf(values, child.name)
+            )
+          ) {
+            return "";
+          }
+          return renderNodes(node.children, values);
+      }
+    })
+    .join("");
+}
+
+function shorten(value: string, max: number): string {
+  const chars = [...value];
+  if (chars.length <= max) {
+    return value;
+  }
+  return chars.slice(0, Math.max(max - 1, 0)).join("").trimEnd() + ELLIPSIS;
+}
+
+const importance = (name: string) => PRIORITY.indexOf(name);
+
+/**
+ * Renders a status template and fits it into `limit` characters by
+ * shortening the least important placeholder values first. Values inside a
+ * conditional section are dropped entirely if they can't be shortened enough.
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+  limit = STATUS_MESSAGE_LIMIT
+): string {
+  const nodes = parse(template);
+  let message = render(nodes, values);
+  if (messageLength(message) <= limit) {
+    return message;
+  }
+
+  const optional = new Set<string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    if (node.type === "placeholder") {
+      used.add(node.name);
+    } else if (node.type === "section") {
+      node.children.forEach((child) => {
+        if (child.type === "placeholder") {
+          used.add(child.name);
+          optional.add(child.name);
+        }
+      });
+    }
+  }
+
+  // Unknown placeholders are treated as the least important ones
+  const order = [...used].sort((a, b) => importance(a) - importance(b));
+  const fitted: TemplateValues = { ...values };
+
+  for (const name of order) {
+    const value = valueOf(fitted, name);
+    if (!value) {
+      continue;
+    }
+    const overflow = messageLength(message) - limit;
+    const target = messageLength(value) - overflow;
+    if (target >= MIN_VALUE_LENGTH) {
+      fitted[name] = shorten(value, target);
+    } else if (optional.has(name)) {
+      fitted[name] = "";
+    } else {
+      fitted[name] = shorten(value, MIN_VALUE_LENGTH);
+    }
+    message = render(nodes, fitted);
+    if (messageLength(message) <= limit) {
+      return message;
+    }
+  }
+
+  return shorten(message, limit);
+}
+
+/**
+ * Formats a number of minutes as e.g. `5 minutes` or `2 hours 3 minutes`.
+ */
+export function formatDuration(minutes: number): string {
+  const plural = (count: number, unit: string) =>
+    `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+  if (minutes > 60) {
+    const hours = Math.floor(minutes / 60);
+    return `${plural(hours, "hour")} ${plural(Math.floor(minutes % 60), "minute")}`;
+  }
+  return plural(minutes, "minute");
+}
@@ -0,0 +1,94 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface GraphQLCall {
+	query: string;
+	variables: { [key: string]: unknown };
+	authorization?: string;
+}
+
+// `ChangeUserStatusInput` as sent by the extension
+export interface StatusInput {
+	emoji?: string | null;
+	message?: string | null;
+	expiresAt?: string | null;
+	limitedAvailability?: boolean;
+	organizationId?: string | null;
+}
+
+/**
+ * Minimal GitHub API on localhost that records GraphQL requests and answers
+ * `changeUserStatus` mutations with the status it was sent.
+ */
+export class MockGitHub {
+	public readonly calls: GraphQLCall[] = [];
+	// HTTP status to answer the next requests with, e.g. 502 to simulate outages
+	public failWith?: number;
+	private server = http.createServer((request, response) => this.handle(request, response));
+	private waiters: (() => void)[] = [];
+
+	public async start(): Promise<string> {
+		await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	public close(): Promise<void> {
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	// Statuses sent with changeUserStatus, oldest first
+	public get statuses(): StatusInput[] {
+		return this.calls
+			.filter((call) => call.query.includes('changeUserStatus'))
+			.map((call) => call.variables.status as StatusInput);
+	}
+
+	public async waitForStatuses(count: number, timeout = 2000): Promise<StatusInput[]> {
+		const deadline = Date.now() + timeout;
+		while (this.statuses.length < count) {
+			if (Date.now() > deadline) {
+				throw new Error(`Expected ${count} status updates, got ${this.statuses.length}`);
+			}
+			await new Promise<void>((resolve) => {
+				this.waiters.push(resolve);
+				setTimeout(resolve, 50);
+			});
+		}
+		return this.statuses;
+	}
+
+	private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+		let body = '';
+		request.on('data', (chunk) => (body += chunk));
+		request.on('end', () => {
+			const reply = (status: number, data: unknown) => {
+				response.writeHead(status, { 'content-type': 'application/json' });
+				response.end(JSON.stringify(data));
+			};
+
+			if (request.method === 'GET' && request.url === '/emojis') {
+				reply(200, { computer: 'https://github.githubassets.com/images/icons/emoji/unicode/1f4bb.png?v8' });
+				return;
+			}
+			if (request.method !== 'POST' || request.url !== '/graphql') {
+				reply(404, { message: 'Not Found' });
+				return;
+			}
+
+			const { query, variables } = JSON.parse(body) as { query: string; variables?: { [key: string]: unknown } };
+			this.calls.push({ query, variables: variables ?? {}, authorization: request.headers.authorization });
+			this.waiters.splice(0).forEach((resolve) => resolve());
+
+			if (this.failWith) {
+				reply(this.failWith, { message: 'Server Error' });
+			} else if (query.includes('changeUserStatus')) {
+				reply(200, { data: { changeUserStatus: { status: variables?.status } } });
+			} else if (query.includes('viewer')) {
+				reply(200, { data: { viewer: { status: null, organizations: { nodes: [] } } } });
+			} else {
+				reply(200, { data: {} });
+			}
+		});
+	}
+}
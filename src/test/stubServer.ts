@@ -0,0 +1,45 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+	method?: string;
+	url?: string;
+	headers: http.IncomingHttpHeaders;
+	body?: { [key: string]: unknown };
+}
+
+export interface StubResponse {
+	status?: number;
+	headers?: { [key: string]: string };
+	body?: unknown;
+}
+
+/**
+ * HTTP server on localhost that records requests and answers them with
+ * `respond`, for testing status providers.
+ */
+export class StubServer {
+	public readonly requests: StubRequest[] = [];
+	public respond: (request: StubRequest) => StubResponse = () => ({ body: {} });
+	private server = http.createServer((request, response) => {
+		let body = '';
+		request.on('data', (chunk) => (body += chunk));
+		request.on('end', () => {
+			const recorded = { method: request.method, url: request.url, headers: request.headers, body: body ? JSON.parse(body) : undefined };
+			this.requests.push(recorded);
+			const reply = this.respond(recorded);
+			response.writeHead(reply.status ?? 200, { 'content-type': 'application/json', ...reply.headers });
+			response.end(JSON.stringify(reply.body ?? {}));
+		});
+	});
+
+	public async start(): Promise<string> {
+		await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	public close(): Promise<void> {
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+}
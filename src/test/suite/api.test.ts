@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ApiController, ApiStatusTarget, createApi, parseStatusQuery, toCustomStatus } from '../../api';
+import type { ControllerState } from '../../service/controller';
+import type { CustomStatus } from '../../service/custom';
+import type { UserStatus } from '../../service/github';
+
+suite('API Test Suite', () => {
+	let posted: CustomStatus[];
+	let state: ControllerState;
+	let received: boolean;
+	let api: ReturnType<typeof createApi>;
+
+	setup(() => {
+		posted = [];
+		state = 'active';
+		received = true;
+		const service: ApiStatusTarget = {
+			get received() {
+				return received;
+			},
+			lastPosted: { emoji: ':rocket:', message: 'Deploying to staging', limitedAvailability: true, expiresAt: null },
+			customStatus: undefined,
+			onDidPostStatus: new vscode.EventEmitter<UserStatus>().event,
+			getAvailableEmojis: () => [{ name: 'rocket', aliases: [], unicode: '🚀', category: 'Travel & Places', keywords: [] }],
+			redactMessage: (message: string) => message.replace(/acme-payments/g, 'a private project'),
+			setCustomStatus: async (status: CustomStatus) => {
+				posted.push(status);
+			},
+		};
+		const controller: ApiController = {
+			get state() {
+				return state;
+			},
+			onDidChangeState: new vscode.EventEmitter<ControllerState>().event,
+			pause: async () => {
+				state = 'paused';
+			},
+			resume: async () => (state = 'active'),
+		};
+		api = createApi(service, controller);
+	});
+
+	teardown(() => api.dispose());
+
+	test('Parses statuses from URI queries', () => {
+		assert.deepStrictEqual(parseStatusQuery('message=On%20call&emoji=pager&minutes=60&busy=true'), {
+			message: 'On call',
+			emoji: 'pager',
+			minutes: 60,
+			busy: true,
+		});
+		assert.deepStrictEqual(parseStatusQuery('message=Lunch'), {
+			message: 'Lunch',
+			emoji: undefined,
+			minutes: undefined,
+			busy: false,
+		});
+		assert.ok(Number.isNaN(parseStatusQuery('message=Lunch&minutes=soon').minutes));
+	});
+
+	test('Strips colons from emojis and expires after the minutes', () => {
+		assert.deepStrictEqual(toCustomStatus({ message: 'On call', emoji: ':pager:', minutes: 30 }), {
+			message: 'On call',
+			emoji: 'pager',
+			busy: false,
+			expiry: { kind: 'minutes', minutes: 30 },
+		});
+		assert.deepStrictEqual(toCustomStatus({ message: 'On call' }).expiry, { kind: 'minutes', minutes: 60 });
+	});
+
+	test('Posts temporary statuses as plain text', async () => {
+		await api.setTemporaryStatus({ message: 'Deploying [prod] {v2}', emoji: 'rocket', minutes: 15 });
+		assert.deepStrictEqual(posted, [{
+			message: 'Deploying [prod] {v2}',
+			emoji: 'rocket',
+			busy: false,
+			expiry: { kind: 'minutes', minutes: 15 },
+		}]);
+	});
+
+	test('Rejects invalid statuses', async () => {
+		await assert.rejects(api.setTemporaryStatus({ message: 'Lunch', emoji: 'sandwich' }), /Unknown emoji/);
+		await assert.rejects(api.setTemporaryStatus({ message: 'Lunch', minutes: NaN }), /whole number/);
+		assert.deepStrictEqual(posted, []);
+	});
+
+	test('Applies the privacy settings to the message', async () => {
+		await api.setTemporaryStatus({ message: 'Deploying acme-payments' });
+		assert.strictEqual(posted[0].message, 'Deploying a private project');
+	});
+
+	test('Rejects statuses while blacklisted, paused or signed out', async () => {
+		state = 'blacklisted';
+		await assert.rejects(api.setTemporaryStatus({ message: 'On call' }), /excluded/);
+		state = 'paused';
+		await assert.rejects(api.setTemporaryStatus({ message: 'On call' }), /paused/);
+		state = 'error';
+		await assert.rejects(api.setTemporaryStatus({ message: 'On call' }), /signed in/);
+		state = 'active';
+		received = false;
+		await assert.rejects(api.setTemporaryStatus({ message: 'On call' }), /signed in/);
+		assert.deepStrictEqual(posted, []);
+	});
+
+	test('Reports the state and the last posted status', () => {
+		assert.deepStrictEqual(api.getState(), {
+			state: 'active',
+			status: { message: 'Deploying to staging', emoji: ':rocket:', busy: true, expiresAt: null },
+			custom: false,
+		});
+	});
+});
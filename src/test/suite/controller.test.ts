@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { StatusController, StatusControllerOptions, StatusTarget } from '../../service/controller';
+import type { StatusTrigger } from '../../service/history';
+import type { SyncStateChange } from '../../service/sync';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class FakeService implements StatusTarget {
+	public calls: string[] = [];
+	public signedIn = true;
+	private syncState = new vscode.EventEmitter<SyncStateChange>();
+
+	public readonly onDidChangeSyncState = this.syncState.event;
+
+	public fireSyncState(change: SyncStateChange): void {
+		this.syncState.fire(change);
+	}
+
+	public async authenticate(): Promise<boolean> {
+		return this.signedIn;
+	}
+
+	public async captureStatus(): Promise<void> {}
+
+	public async setWorkspace(name: string | undefined): Promise<void> {
+		this.calls.push(`workspace ${name}`);
+	}
+
+	public async updateStatus(workspace: string, trigger?: StatusTrigger): Promise<void> {
+		this.calls.push(`update ${trigger}`);
+	}
+
+	public async setIdle(): Promise<void> {
+		this.calls.push('idle');
+	}
+
+	public clearIdle(): void {
+		this.calls.push('clearIdle');
+	}
+
+	public resetActivity(): void {}
+
+	public async setDefault(): Promise<void> {
+		this.calls.push('default');
+	}
+}
+
+suite('Status Controller Test Suite', () => {
+	const folder = { name: 'api', index: 0 } as vscode.WorkspaceFolder;
+	let service: FakeService;
+	let folders: vscode.WorkspaceFolder[];
+	let controller: StatusController;
+
+	const create = (options: StatusControllerOptions = {}) => {
+		controller = new StatusController(service, {
+			getFolders: async () => folders,
+			interval: 60000,
+			idleTimeout: 60000,
+			...options,
+		});
+		return controller;
+	};
+
+	setup(() => {
+		service = new FakeService();
+		folders = [folder];
+	});
+
+	teardown(() => {
+		controller.dispose();
+	});
+
+	test('Starts syncing the included folders', async () => {
+		const states: string[] = [];
+		create().onDidChangeState((state) => states.push(state));
+		assert.strictEqual(controller.state, 'inactive');
+
+		assert.strictEqual(await controller.start(), 'active');
+		assert.deepStrictEqual(service.calls, ['workspace api', 'update start']);
+		assert.deepStrictEqual(states, ['active']);
+	});
+
+	test('Stays blacklisted without included folders', async () => {
+		folders = [];
+		assert.strictEqual(await create().start(), 'blacklisted');
+		assert.deepStrictEqual(service.calls, []);
+	});
+
+	test('Fails to start when signed out', async () => {
+		service.signedIn = false;
+		assert.strictEqual(await create().start(), 'error');
+		assert.deepStrictEqual(service.calls, []);
+	});
+
+	test('Posts on every interval', async () => {
+		await create({ interval: 20 }).start();
+		await wait(70);
+		assert.ok(service.calls.filter((call) => call === 'update interval').length >= 2);
+	});
+
+	test('Goes idle and comes back on activity', async () => {
+		const activity = new vscode.EventEmitter<void>();
+		await create({ idleTimeout: 20, activity: [activity.event] }).start();
+		await wait(50);
+		assert.strictEqual(controller.state, 'idle');
+		assert.ok(service.calls.includes('idle'));
+
+		activity.fire();
+		assert.strictEqual(controller.state, 'active');
+		assert.deepStrictEqual(service.calls.slice(-2), ['clearIdle', 'update activity']);
+	});
+
+	test('Activity pushes the idle timeout back', async () => {
+		const activity = new vscode.EventEmitter<void>();
+		await create({ idleTimeout: 50, activity: [activity.event] }).start();
+		for (let i = 0; i < 4; i++) {
+			await wait(20);
+			activity.fire();
+		}
+		assert.strictEqual(controller.state, 'active');
+	});
+
+	test('Does not go idle while busy', async () => {
+		let busy = true;
+		await create({ idleTimeout: 20, isBusy: () => busy }).start();
+		await wait(50);
+		assert.strictEqual(controller.state, 'active');
+
+		busy = false;
+		await wait(50);
+		assert.strictEqual(controller.state, 'idle');
+	});
+
+	test('Pauses and resumes', async () => {
+		await create({ interval: 20 }).start();
+		await controller.pause();
+		assert.strictEqual(controller.state, 'paused');
+		assert.strictEqual(service.calls[service.calls.length - 1], 'default');
+
+		const count = service.calls.length;
+		await wait(50);
+		assert.strictEqual(service.calls.length, count);
+
+		assert.strictEqual(await controller.resume(), 'active');
+		assert.strictEqual(service.calls[service.calls.length - 1], 'update manual');
+	});
+
+	test('Becomes blacklisted when reconfigured', async () => {
+		await create().start();
+		folders = [];
+		assert.strictEqual(await controller.reconfigure(), 'blacklisted');
+		assert.strictEqual(service.calls[service.calls.length - 1], 'default');
+
+		folders = [folder];
+		assert.strictEqual(await controller.reconfigure(), 'active');
+	});
+
+	test('Leaves the status to the leading window when paused or blacklisted', async () => {
+		await create({ isLeader: () => false }).start();
+		await controller.pause();
+		assert.strictEqual(controller.state, 'paused');
+
+		await controller.resume();
+		folders = [];
+		assert.strictEqual(await controller.reconfigure(), 'blacklisted');
+		assert.ok(!service.calls.includes('default'));
+	});
+
+	test('Stays paused when reconfigured', async () => {
+		await create().start();
+		await controller.pause();
+		assert.strictEqual(await controller.reconfigure(), 'paused');
+	});
+
+	test('Stops on a rejected token', async () => {
+		await create({ interval: 20 }).start();
+		service.fireSyncState({ state: 'unauthorized' });
+		assert.strictEqual(controller.state, 'error');
+
+		const count = service.calls.length;
+		await wait(50);
+		assert.strictEqual(service.calls.length, count);
+		assert.strictEqual(await controller.start(), 'active');
+	});
+
+	test('Stops all timers', async () => {
+		await create({ interval: 20, idleTimeout: 20 }).start();
+		controller.stop();
+		assert.strictEqual(controller.state, 'inactive');
+
+		const count = service.calls.length;
+		await wait(50);
+		assert.strictEqual(service.calls.length, count);
+	});
+});
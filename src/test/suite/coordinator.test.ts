@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WindowCoordinator } from '../../service/coordinator';
+
+suite('Window Coordinator Test Suite', () => {
+	let folder: string;
+	let windows: WindowCoordinator[];
+
+	const open = () => {
+		const context = { globalStorageUri: vscode.Uri.file(folder) } as unknown as vscode.ExtensionContext;
+		const coordinator = new WindowCoordinator(context);
+		windows.push(coordinator);
+		return coordinator;
+	};
+
+	setup(async () => {
+		folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'githubstatus-'));
+		windows = [];
+	});
+
+	teardown(async () => {
+		windows.forEach((coordinator) => coordinator.dispose());
+		await fs.promises.rm(folder, { recursive: true, force: true });
+	});
+
+	test('Keeps the focused window as leader when a heartbeat runs at the same time', async () => {
+		const focused = open();
+		const other = open();
+		for (let i = 0; i < 10; i++) {
+			await other.focus();
+			await Promise.all([focused.focus(), other.heartbeat(), other.heartbeat()]);
+			await other.heartbeat();
+
+			assert.strictEqual(focused.isLeader, true);
+			assert.strictEqual(other.isLeader, false);
+		}
+		const state = JSON.parse(await fs.promises.readFile(path.join(folder, 'windows.json'), 'utf8'));
+		assert.strictEqual(Object.keys(state.windows).length, 2);
+		assert.ok(!fs.existsSync(path.join(folder, 'windows.json.lock')));
+	});
+
+	test('Hands leadership to the remaining window', async () => {
+		const first = open();
+		const second = open();
+		await first.focus();
+		await second.focus();
+
+		assert.strictEqual(await second.leave(), false);
+		await first.heartbeat();
+		assert.strictEqual(first.isLeader, true);
+		assert.strictEqual(await first.leave(), true);
+	});
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { describeExpiry, getExpiryDate, parseTime, validateCustomStatus } from '../../service/custom';
+import { EmojiInfo } from '../../service/emoji';
+
+suite('Custom Status Test Suite', () => {
+	const now = new Date(2026, 9, 19, 14, 20);
+
+	test('Parses times of day', () => {
+		assert.deepStrictEqual(parseTime('9:05'), { hour: 9, minute: 5 });
+		assert.deepStrictEqual(parseTime(' 17:30 '), { hour: 17, minute: 30 });
+		assert.strictEqual(parseTime('24:00'), undefined);
+		assert.strictEqual(parseTime('5pm'), undefined);
+	});
+
+	test('Expires after a number of minutes', () => {
+		assert.strictEqual(getExpiryDate({ kind: 'minutes', minutes: 30 }, now)?.getTime(), now.getTime() + 30 * 60000);
+	});
+
+	test('Expires at the end of the day', () => {
+		assert.deepStrictEqual(getExpiryDate({ kind: 'endOfDay' }, now), new Date(2026, 9, 20));
+	});
+
+	test('Expires at a time of day, tomorrow when it has passed', () => {
+		assert.deepStrictEqual(getExpiryDate({ kind: 'time', time: '17:30' }, now), new Date(2026, 9, 19, 17, 30));
+		assert.deepStrictEqual(getExpiryDate({ kind: 'time', time: '08:00' }, now), new Date(2026, 9, 20, 8, 0));
+	});
+
+	test('Never expires', () => {
+		assert.strictEqual(getExpiryDate({ kind: 'never' }, now), undefined);
+	});
+
+	test('Describes expiries', () => {
+		assert.strictEqual(describeExpiry({ kind: 'minutes', minutes: 30 }), '30 min');
+		assert.strictEqual(describeExpiry({ kind: 'minutes', minutes: 60 }), '1 hour');
+		assert.strictEqual(describeExpiry({ kind: 'minutes', minutes: 120 }), '2 hours');
+		assert.strictEqual(describeExpiry({ kind: 'time', time: '17:30' }), 'until 17:30');
+	});
+
+	test('Validates statuses from other tools', () => {
+		const emojis: EmojiInfo[] = [{ name: 'rocket', aliases: [], unicode: '🚀', category: 'Travel & Places', keywords: [] }];
+		const status = { message: 'Deploying to staging', emoji: 'rocket', busy: false, expiry: { kind: 'minutes', minutes: 30 } as const };
+		assert.strictEqual(validateCustomStatus(status, emojis), undefined);
+		assert.strictEqual(validateCustomStatus({ ...status, message: '' }, emojis), undefined);
+		assert.match(validateCustomStatus({ ...status, message: ' ', emoji: undefined }, emojis) ?? '', /message or an emoji/);
+		assert.match(validateCustomStatus({ ...status, message: 'x'.repeat(81) }, emojis) ?? '', /80 characters/);
+		assert.strictEqual(validateCustomStatus({ ...status, message: '🚀'.repeat(80) }, emojis), undefined);
+		assert.match(validateCustomStatus({ ...status, emoji: 'not_an_emoji' }, emojis) ?? '', /Unknown emoji/);
+		assert.match(validateCustomStatus({ ...status, expiry: { kind: 'minutes', minutes: 0 } }, emojis) ?? '', /whole number/);
+		assert.match(validateCustomStatus({ ...status, expiry: { kind: 'minutes', minutes: 1.5 } }, emojis) ?? '', /whole number/);
+		assert.match(validateCustomStatus({ ...status, expiry: { kind: 'minutes', minutes: 20000 } }, emojis) ?? '', /whole number/);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { EmojiPreferences, findEmoji, getEmojiCatalog, mergeEmojis } from '../../service/emoji';
+
+suite('Emoji Test Suite', () => {
+	const unicode = (code: string) => `https://github.githubassets.com/images/icons/emoji/unicode/${code}.png?v8`;
+
+	test('Bundles emojis with keywords', () => {
+		const catalog = getEmojiCatalog();
+		assert.ok(catalog.length > 1000);
+		assert.strictEqual(findEmoji(catalog, 'tada')?.unicode, '🎉');
+		assert.ok(findEmoji(catalog, 'tada')?.keywords.includes('party'));
+		assert.ok(catalog.some((emoji) => emoji.keywords.includes('bug')));
+		assert.strictEqual(findEmoji(catalog, 'thumbsup')?.name, '+1');
+	});
+
+	test('Uses the whole catalogue offline', () => {
+		const catalog = getEmojiCatalog();
+		assert.strictEqual(mergeEmojis(catalog, {}), catalog);
+	});
+
+	test('Labels custom emojis of the server', () => {
+		const emojis = mergeEmojis(getEmojiCatalog(), {
+			computer: unicode('1f4bb'),
+			octocat: 'https://github.githubassets.com/images/icons/emoji/octocat.png?v8',
+			new_emoji: unicode('1fae9'),
+		});
+		assert.deepStrictEqual(emojis.map((emoji) => emoji.name), ['computer', 'new_emoji', 'octocat']);
+		assert.strictEqual(emojis[1].unicode, '\u{1fae9}');
+		assert.strictEqual(emojis[2].unicode, undefined);
+		assert.strictEqual(emojis[2].category, 'GitHub');
+	});
+
+	test('Keeps recent emojis newest first', async () => {
+		const preferences = new EmojiPreferences();
+		for (let i = 0; i < 10; i++) {
+			await preferences.addRecent(`emoji${i}`);
+		}
+		await preferences.addRecent('emoji5');
+		assert.strictEqual(preferences.recent.length, 8);
+		assert.strictEqual(preferences.recent[0], 'emoji5');
+		assert.strictEqual(preferences.recent.filter((name) => name === 'emoji5').length, 1);
+
+		await preferences.toggleFavorite('rocket');
+		assert.deepStrictEqual(preferences.favorites, ['rocket']);
+		await preferences.toggleFavorite('rocket');
+		assert.deepStrictEqual(preferences.favorites, []);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FocusSession, FocusState } from '../../service/focus';
+
+suite('Focus Session Test Suite', () => {
+	let sessions: FocusSession[];
+
+	const sharedState = () => {
+		const state = new Map<string, unknown>();
+		return {
+			keys: () => [...state.keys()],
+			get: (key: string) => state.get(key),
+			update: async (key: string, value: unknown) => {
+				state.set(key, value);
+			},
+		} as unknown as vscode.Memento;
+	};
+
+	setup(() => {
+		sessions = [];
+	});
+
+	teardown(() => sessions.forEach((session) => session.dispose()));
+
+	test('Picks up sessions started in another window', async () => {
+		const memento = sharedState();
+		const first = new FocusSession(memento);
+		const second = new FocusSession(memento);
+		sessions.push(first, second);
+
+		const changed = new Promise<FocusState | undefined>((resolve) => second.onDidChange(resolve));
+		const ticked = new Promise<FocusState>((resolve) => second.onDidTick(resolve));
+		first.start('focus', 25);
+
+		assert.strictEqual((await changed)?.mode, 'focus');
+		assert.strictEqual((await ticked).mode, 'focus');
+		assert.strictEqual(second.remainingMinutes, 25);
+	});
+
+	test('Treats sessions that ended while no window was open as over', () => {
+		const memento = sharedState();
+		memento.update('githubstatus.focusSession', { mode: 'focus', startedAt: 0, endsAt: Date.now() - 60000 });
+		const session = new FocusSession(memento);
+		sessions.push(session);
+		assert.strictEqual(session.current, undefined);
+		assert.strictEqual(session.remainingSeconds, 0);
+	});
+});
@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { normalizeRemoteUrl, parseGitHubRemote } from '../../service/git';
+
+suite('Git Test Suite', () => {
+	test('Normalizes remote URLs', () => {
+		assert.strictEqual(normalizeRemoteUrl('git@github.com:acme/api.git'), 'github.com/acme/api');
+		assert.strictEqual(normalizeRemoteUrl('https://github.com/acme/api/'), 'github.com/acme/api');
+		assert.strictEqual(normalizeRemoteUrl('ssh://git@github.acme.com:2222/acme/api.git'), 'github.acme.com/acme/api');
+	});
+
+	test('Parses GitHub repositories', () => {
+		assert.deepStrictEqual(parseGitHubRemote('git@github.com:acme/api.git', 'github.com'), { owner: 'acme', name: 'api' });
+		assert.deepStrictEqual(parseGitHubRemote('https://GitHub.com/acme/api', 'github.com'), { owner: 'acme', name: 'api' });
+	});
+
+	test('Ignores other hosts and paths', () => {
+		assert.strictEqual(parseGitHubRemote('git@gitlab.com:acme/api.git', 'github.com'), undefined);
+		assert.strictEqual(parseGitHubRemote('https://github.com/acme', 'github.com'), undefined);
+		assert.strictEqual(parseGitHubRemote('https://github.com/acme/api/wiki', 'github.com'), undefined);
+	});
+});
@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import GitHubService from '../../service/github';
+import { setIncognito } from '../../service/privacy';
+import { MockGitHub } from '../mockGitHub';
+
+suite('GitHub Service Test Suite', () => {
+	let server: MockGitHub;
+	let service: GitHubService;
+	let baseUrl: string;
+
+	setup(async () => {
+		server = new MockGitHub();
+		baseUrl = await server.start();
+		service = new GitHubService(undefined, undefined, { baseUrl, token: 'test-token' });
+		await service.authenticate();
+	});
+
+	teardown(async () => {
+		service.dispose();
+		await server.close();
+	});
+
+	test('Posts the workspace status', async () => {
+		await service.updateStatus('api');
+		const [status] = await server.waitForStatuses(1);
+
+		assert.strictEqual(status.message, 'Working on api');
+		assert.strictEqual(status.emoji, ':computer:');
+		assert.ok(new Date(status.expiresAt ?? 0).getTime() > Date.now());
+		assert.strictEqual(server.calls[server.calls.length - 1].authorization, 'token test-token');
+	});
+
+	test('Posts the idle status and resumes afterwards', async () => {
+		await service.updateStatus('api');
+		await service.setIdle();
+		const statuses = await server.waitForStatuses(2);
+		assert.strictEqual(statuses[1].message, 'Idle - Away from keyboard');
+		assert.strictEqual(statuses[1].emoji, ':zzz:');
+
+		service.clearIdle();
+		await service.updateStatus('api');
+		const resumed = await server.waitForStatuses(3);
+		assert.match(resumed[2].message ?? '', /^Working on api/);
+	});
+
+	test('Sets the default status without retrying', async () => {
+		await service.setDefault();
+		assert.deepStrictEqual(server.statuses, [
+			{ emoji: ':zzz:', message: 'Available for collaboration' },
+		]);
+
+		server.failWith = 502;
+		await service.setDefault();
+		assert.strictEqual(server.statuses.length, 2);
+	});
+
+	test('Records sent statuses in the history', async () => {
+		await service.setDefault();
+		const [sent] = service.history.entries;
+		assert.strictEqual(sent.trigger, 'deactivate');
+		assert.strictEqual(sent.status.message, 'Available for collaboration');
+		assert.deepStrictEqual(sent.response, { changeUserStatus: { status: server.statuses[0] } });
+
+		server.failWith = 502;
+		await service.setDefault();
+		const [failed] = service.history.entries;
+		assert.ok(failed.error);
+		assert.strictEqual(failed.response, undefined);
+	});
+
+	test('Sends a status from the history again', async () => {
+		await service.resend({ emoji: ':coffee:', message: 'Brewing', expiresAt: new Date(0).toISOString() });
+		const [status] = await server.waitForStatuses(1);
+		assert.strictEqual(status.message, 'Brewing');
+		assert.ok(new Date(status.expiresAt ?? 0).getTime() > Date.now());
+		assert.strictEqual(service.history.entries[0].trigger, 'manual');
+	});
+
+	test('Pauses automatic updates while a custom status is set', async () => {
+		await service.setWorkspace('api', []);
+		await service.setCustomStatus({ message: 'Out for lunch', emoji: 'hamburger', busy: true, expiry: { kind: 'minutes', minutes: 30 } });
+		await service.updateStatus('api');
+		await service.setIdle();
+		await service.setDefault();
+		await new Promise((resolve) => setTimeout(resolve, 200));
+		assert.strictEqual(server.statuses.length, 1);
+		assert.strictEqual(server.statuses[0].message, 'Out for lunch');
+		assert.strictEqual(server.statuses[0].emoji, ':hamburger:');
+		assert.strictEqual(server.statuses[0].limitedAvailability, true);
+
+		service.clearIdle();
+		await service.clearCustomStatus();
+		const statuses = await server.waitForStatuses(2);
+		assert.match(statuses[1].message ?? '', /^Working on api/);
+	});
+
+	test('Keeps custom statuses set in other windows', async () => {
+		const state = new Map<string, unknown>();
+		const globalState = {
+			keys: () => [...state.keys()],
+			get: (key: string) => state.get(key),
+			update: async (key: string, value: unknown) => {
+				state.set(key, value);
+			},
+		};
+		const context = { globalState } as unknown as vscode.ExtensionContext;
+		const first = new GitHubService(context, undefined, { baseUrl, token: 'test-token', providers: [] });
+		const second = new GitHubService(context, undefined, { baseUrl, token: 'test-token', providers: [] });
+		await first.authenticate();
+		await second.authenticate();
+
+		try {
+			await first.setCustomStatus({ message: 'On call', emoji: 'pager', busy: true, expiry: { kind: 'minutes', minutes: 30 } });
+			await second.updateStatus('api');
+			await new Promise((resolve) => setTimeout(resolve, 200));
+			assert.deepStrictEqual(server.statuses.map(({ message }) => message), ['On call']);
+
+			await first.clearCustomStatus();
+			await second.updateStatus('api');
+			const statuses = await server.waitForStatuses(2);
+			assert.match(statuses[1].message ?? '', /^Working on api/);
+		} finally {
+			first.dispose();
+			second.dispose();
+		}
+	});
+
+	test('Posts no idle or default status for skipped workspaces', async () => {
+		const config = vscode.workspace.getConfiguration('githubstatus');
+		await config.update('rules', [{ workspace: '^api$', skip: true }], vscode.ConfigurationTarget.Global);
+		try {
+			await service.setWorkspace('api', []);
+			await service.setIdle();
+			await service.setDefault();
+			await new Promise((resolve) => setTimeout(resolve, 200));
+			assert.strictEqual(server.statuses.length, 0);
+		} finally {
+			await config.update('rules', undefined, vscode.ConfigurationTarget.Global);
+		}
+	});
+
+	test('Posts a meeting that lasts for weeks once', async () => {
+		const toIcs = (time: number) => new Date(time).toISOString().replace(/[-:]|\.\d+/g, '');
+		const file = path.join(os.tmpdir(), `githubstatus-${process.pid}.ics`);
+		await fs.promises.writeFile(file, [
+			'BEGIN:VCALENDAR',
+			'BEGIN:VEVENT',
+			'SUMMARY:Parental leave',
+			`DTSTART:${toIcs(Date.now() - 86400000)}`,
+			`DTEND:${toIcs(Date.now() + 30 * 86400000)}`,
+			'END:VEVENT',
+			'END:VCALENDAR',
+		].join('\r\n'));
+		const config = vscode.workspace.getConfiguration('githubstatus');
+		await config.update('calendarFile', file, vscode.ConfigurationTarget.Global);
+		try {
+			await service.updateStatus('api');
+			await new Promise((resolve) => setTimeout(resolve, 200));
+			assert.strictEqual(server.statuses.length, 1);
+			assert.match(server.statuses[0].message ?? '', /^In a meeting until/);
+		} finally {
+			await config.update('calendarFile', undefined, vscode.ConfigurationTarget.Global);
+			await fs.promises.rm(file, { force: true });
+		}
+	});
+
+	test('Replaces workspace names in plain messages', async () => {
+		const config = vscode.workspace.getConfiguration('githubstatus');
+		await config.update('aliases', { 'acme-payments': 'a client project' }, vscode.ConfigurationTarget.Global);
+		try {
+			await service.setWorkspace('acme-payments', []);
+			assert.strictEqual(service.redactMessage('Deploying ACME-payments'), 'Deploying a client project');
+			setIncognito(true);
+			assert.strictEqual(service.redactMessage('Deploying acme-payments'), 'Deploying a private project');
+		} finally {
+			setIncognito(false);
+			await config.update('aliases', undefined, vscode.ConfigurationTarget.Global);
+		}
+	});
+
+	test('Only logs statuses in dry run mode', async () => {
+		const config = vscode.workspace.getConfiguration('githubstatus');
+		await config.update('dryRun', true, vscode.ConfigurationTarget.Global);
+		try {
+			await service.updateStatus('api');
+			await new Promise((resolve) => setTimeout(resolve, 200));
+			assert.strictEqual(server.statuses.length, 0);
+		} finally {
+			await config.update('dryRun', undefined, vscode.ConfigurationTarget.Global);
+		}
+	});
+});
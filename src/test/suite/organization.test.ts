@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { matchOrganization } from '../../service/organization';
+
+suite('Organization Test Suite', () => {
+	const map = {
+		'github.com/acme/': 'acme',
+		'https://github.com/acme/platform-': 'acme-platform',
+		'github.com/acme/infra': 'acme-infra',
+	};
+
+	test('Matches remotes under an owner', () => {
+		assert.strictEqual(matchOrganization(map, ['git@github.com:acme/api.git']), 'acme');
+		assert.strictEqual(matchOrganization(map, ['https://github.com/ACME/web']), 'acme');
+	});
+
+	test('Prefers the longest matching prefix', () => {
+		assert.strictEqual(matchOrganization(map, ['https://github.com/acme/infra.git']), 'acme-infra');
+	});
+
+	test('Only matches whole path segments', () => {
+		assert.strictEqual(matchOrganization(map, ['https://github.com/acme-labs/api']), undefined);
+		assert.strictEqual(matchOrganization(map, ['https://github.com/acme/platform-api']), 'acme');
+	});
+
+	test('Leaves other remotes public', () => {
+		assert.strictEqual(matchOrganization(map, ['git@github.com:me/dotfiles.git']), undefined);
+		assert.strictEqual(matchOrganization(map, []), undefined);
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import GitHubService from '../../service/github';
+import { ProviderError } from '../../service/provider';
+import { getClearStatusAfter, GitLabProvider } from '../../service/providers/gitlab';
+import { GiteaProvider } from '../../service/providers/gitea';
+import { SlackProvider } from '../../service/providers/slack';
+import { classifyError } from '../../service/sync';
+import { MockGitHub } from '../mockGitHub';
+import { StubServer } from '../stubServer';
+
+suite('Providers Test Suite', () => {
+	let server: StubServer;
+	let baseUrl: string;
+	const status = {
+		emoji: ':computer:',
+		message: 'Working on api',
+		limitedAvailability: true,
+		expiresAt: new Date(Date.now() + 10 * 60000).toISOString(),
+	};
+
+	setup(async () => {
+		server = new StubServer();
+		baseUrl = await server.start();
+	});
+
+	teardown(async () => {
+		await server.close();
+	});
+
+	test('Sets the GitLab user status', async () => {
+		await new GitLabProvider('gitlab', 'glpat-test', `${baseUrl}/`).setStatus(status);
+
+		const [request] = server.requests;
+		assert.strictEqual(request.method, 'PUT');
+		assert.strictEqual(request.url, '/api/v4/user/status');
+		assert.strictEqual(request.headers['private-token'], 'glpat-test');
+		assert.deepStrictEqual(request.body, {
+			emoji: 'computer',
+			message: 'Working on api',
+			availability: 'busy',
+			clear_status_after: '30_minutes',
+		});
+	});
+
+	test('Rounds expiries up to the durations GitLab supports', () => {
+		const now = Date.now();
+		const inMinutes = (minutes: number) => new Date(now + minutes * 60000).toISOString();
+		assert.strictEqual(getClearStatusAfter(inMinutes(5), now), '30_minutes');
+		assert.strictEqual(getClearStatusAfter(inMinutes(60), now), '3_hours');
+		assert.strictEqual(getClearStatusAfter(inMinutes(60 * 24 * 90), now), '30_days');
+		assert.strictEqual(getClearStatusAfter(null, now), undefined);
+	});
+
+	test('Reports rejected GitLab tokens as unauthorized', async () => {
+		server.respond = () => ({ status: 401, body: { message: '401 Unauthorized' } });
+		await assert.rejects(
+			new GitLabProvider('gitlab', 'expired', baseUrl).setStatus(status),
+			(error: unknown) => error instanceof ProviderError && classifyError(error).kind === 'unauthorized'
+		);
+	});
+
+	test('Sets the Gitea profile description', async () => {
+		await new GiteaProvider('gitea', 'gitea-test', baseUrl).setStatus(status);
+
+		const [request] = server.requests;
+		assert.strictEqual(request.method, 'PATCH');
+		assert.strictEqual(request.url, '/api/v1/user/settings');
+		assert.strictEqual(request.headers.authorization, 'token gitea-test');
+		assert.deepStrictEqual(request.body, { description: ':computer: Working on api' });
+	});
+
+	test('Sets the Slack profile status', async () => {
+		server.respond = () => ({ body: { ok: true } });
+		await new SlackProvider('slack', 'xoxp-test', baseUrl).setStatus(status);
+
+		const [request] = server.requests;
+		assert.strictEqual(request.method, 'POST');
+		assert.strictEqual(request.url, '/users.profile.set');
+		assert.strictEqual(request.headers.authorization, 'Bearer xoxp-test');
+		assert.deepStrictEqual(request.body, {
+			profile: {
+				status_text: 'Working on api',
+				status_emoji: ':computer:',
+				status_expiration: Math.floor(new Date(status.expiresAt).getTime() / 1000),
+			},
+		});
+	});
+
+	test('Reports Slack errors', async () => {
+		server.respond = () => ({ body: { ok: false, error: 'invalid_auth' } });
+		await assert.rejects(
+			new SlackProvider('slack', 'revoked', baseUrl).setStatus(status),
+			(error: unknown) => error instanceof ProviderError && classifyError(error).kind === 'unauthorized'
+		);
+	});
+
+	test('Posts the status to GitHub and the other providers', async () => {
+		const github = new MockGitHub();
+		try {
+			const service = new GitHubService(undefined, undefined, {
+				baseUrl: await github.start(),
+				token: 'test-token',
+				providers: [new GitLabProvider('gitlab', 'glpat-test', baseUrl)],
+			});
+			await service.authenticate();
+			await service.setDefault();
+
+			assert.strictEqual(github.statuses[0].message, 'Available for collaboration');
+			assert.strictEqual(server.requests[0].body?.message, 'Available for collaboration');
+			assert.deepStrictEqual(service.history.entries.map((entry) => entry.provider).sort(), ['GitHub', 'gitlab']);
+		} finally {
+			await github.close();
+		}
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { matchRule, StatusRule } from '../../service/rules';
+
+suite('Rules Test Suite', () => {
+	const rules: StatusRule[] = [
+		{ workspace: '^client-', skip: true },
+		{ file: '**/docs/**', emoji: 'memo', template: 'Writing docs' },
+		{ language: ['rust'], emoji: 'crab' },
+	];
+
+	test('Matches on workspace name', () => {
+		assert.strictEqual(matchRule(rules, { workspace: 'client-acme', language: 'rust' }), rules[0]);
+	});
+
+	test('Matches on file glob', () => {
+		assert.strictEqual(matchRule(rules, { workspace: 'api', file: '/home/me/api/docs/intro.md' }), rules[1]);
+		assert.strictEqual(matchRule(rules, { workspace: 'api', relativeFile: 'docs/intro.md' }), rules[1]);
+	});
+
+	test('Matches on language', () => {
+		assert.strictEqual(matchRule(rules, { workspace: 'api', language: 'rust', file: '/src/main.rs' }), rules[2]);
+	});
+
+	test('Requires all conditions of a rule to match', () => {
+		const combined: StatusRule[] = [{ language: 'markdown', file: '**/docs/**', emoji: 'memo' }];
+		assert.strictEqual(matchRule(combined, { language: 'markdown', file: '/api/README.md' }), undefined);
+		assert.strictEqual(matchRule(combined, { language: 'markdown', file: '/api/docs/README.md' }), combined[0]);
+	});
+
+	test('Matches on activity', () => {
+		const activityRules: StatusRule[] = [{ activity: ['debugging', 'testing'], emoji: 'bug' }];
+		assert.strictEqual(matchRule(activityRules, { activity: 'debugging' }), activityRules[0]);
+		assert.strictEqual(matchRule(activityRules, { activity: 'editing' }), undefined);
+	});
+
+	test('Ignores rules with invalid patterns', () => {
+		assert.strictEqual(matchRule([{ workspace: '(' }], { workspace: 'api' }), undefined);
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { getCurrentEvent, parseIcs } from '../../service/calendar';
+import { isWithinSchedule } from '../../service/schedule';
+
+suite('Schedule Test Suite', () => {
+	const schedule = {
+		timezone: 'Europe/Berlin',
+		days: { mon: ['09:00-12:00', '13:00-17:00'] },
+	};
+
+	test('Checks working hours in the configured time zone', () => {
+		// Monday 19 October 2026, Berlin is UTC+2
+		assert.strictEqual(isWithinSchedule(schedule, new Date('2026-10-19T08:30:00Z')), true);
+		assert.strictEqual(isWithinSchedule(schedule, new Date('2026-10-19T10:30:00Z')), false);
+		assert.strictEqual(isWithinSchedule(schedule, new Date('2026-10-19T06:59:00Z')), false);
+		// Tuesday has no working hours
+		assert.strictEqual(isWithinSchedule(schedule, new Date('2026-10-20T08:30:00Z')), false);
+	});
+
+	test('Treats an empty schedule as always working', () => {
+		assert.strictEqual(isWithinSchedule(undefined), true);
+		assert.strictEqual(isWithinSchedule({ days: {} }), true);
+	});
+
+	const calendar = [
+		'BEGIN:VCALENDAR',
+		'BEGIN:VEVENT',
+		'SUMMARY:Planning',
+		'DTSTART:20261019T130000Z',
+		'DTEND:20261019T133000Z',
+		'END:VEVENT',
+		'BEGIN:VEVENT',
+		'SUMMARY:Stand',
+		' up',
+		'DTSTART;TZID=Europe/Berlin:20261012T093000',
+		'DTEND;TZID=Europe/Berlin:20261012T094500',
+		'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+		'EXDATE;TZID=Europe/Berlin:20261021T093000',
+		'END:VEVENT',
+		'BEGIN:VEVENT',
+		'SUMMARY:Holiday',
+		'DTSTART;VALUE=DATE:20261019',
+		'DTEND;VALUE=DATE:20261020',
+		'END:VEVENT',
+		'END:VCALENDAR',
+	].join('\r\n');
+
+	test('Parses timed events', () => {
+		const events = parseIcs(calendar);
+		assert.deepStrictEqual(events.map((event) => event.summary), ['Planning', 'Standup']);
+		assert.strictEqual(events[1].start.toISOString(), '2026-10-12T07:30:00.000Z');
+	});
+
+	test('Finds the running event', () => {
+		const events = parseIcs(calendar);
+		const planning = getCurrentEvent(events, Date.parse('2026-10-19T13:10:00Z'));
+		assert.strictEqual(planning?.summary, 'Planning');
+		assert.strictEqual(planning?.end.toISOString(), '2026-10-19T13:30:00.000Z');
+		assert.strictEqual(getCurrentEvent(events, Date.parse('2026-10-19T13:30:00Z')), undefined);
+	});
+
+	test('Expands weekly recurrences', () => {
+		const events = parseIcs(calendar);
+		const standup = getCurrentEvent(events, Date.parse('2026-10-19T07:40:00Z'));
+		assert.strictEqual(standup?.summary, 'Standup');
+		assert.strictEqual(standup?.end.toISOString(), '2026-10-19T07:45:00.000Z');
+		// Excluded occurrence on Wednesday
+		assert.strictEqual(getCurrentEvent(events, Date.parse('2026-10-21T07:40:00Z')), undefined);
+		// Not on Tuesdays
+		assert.strictEqual(getCurrentEvent(events, Date.parse('2026-10-20T07:40:00Z')), undefined);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { StatsEntry, summarize, toCsv } from '../../service/stats';
+
+suite('Statistics Test Suite', () => {
+	const entries: StatsEntry[] = [
+		{ date: '2026-10-19', workspace: 'api', language: 'go', activeMinutes: 30, idleMinutes: 5 },
+		{ date: '2026-10-19', workspace: 'web', language: 'typescript', activeMinutes: 90, idleMinutes: 0 },
+		{ date: '2026-10-20', workspace: 'api', language: 'typescript', activeMinutes: 45, idleMinutes: 10 },
+	];
+
+	test('Summarizes entries by key', () => {
+		assert.deepStrictEqual(summarize(entries, (entry) => entry.workspace), [
+			{ key: 'web', activeMinutes: 90, idleMinutes: 0 },
+			{ key: 'api', activeMinutes: 75, idleMinutes: 15 },
+		]);
+	});
+
+	test('Exports CSV', () => {
+		const csv = toCsv([...entries, { date: '2026-10-18', workspace: 'a, "b"', language: 'go', activeMinutes: 1, idleMinutes: 0 }]);
+		assert.deepStrictEqual(csv.split('\n'), [
+			'date,workspace,language,activeMinutes,idleMinutes',
+			'2026-10-18,"a, ""b""",go,1,0',
+			'2026-10-19,api,go,30,5',
+			'2026-10-19,web,typescript,90,0',
+			'2026-10-20,api,typescript,45,10',
+			'',
+		]);
+	});
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import { classifyError, StatusSync, SyncState } from '../../service/sync';
+import type { UserStatus } from '../../service/github';
+
+const status = (message: string): UserStatus => ({ message, emoji: ':computer:' });
+
+const httpError = (status: number, headers: { [key: string]: string } = {}) =>
+	Object.assign(new Error(`HTTP ${status}`), { status, response: { headers } });
+
+suite('Status Sync Test Suite', () => {
+	test('Classifies errors', () => {
+		assert.deepStrictEqual(classifyError(httpError(401)), { kind: 'unauthorized' });
+		assert.deepStrictEqual(classifyError(new Error('Bad credentials')), { kind: 'unauthorized' });
+		assert.deepStrictEqual(classifyError(httpError(403, { 'retry-after': '30' })), {
+			kind: 'rateLimited',
+			retryAfter: 30000,
+		});
+		assert.deepStrictEqual(
+			classifyError(httpError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '100' }), 40000),
+			{ kind: 'rateLimited', retryAfter: 60000 }
+		);
+		assert.deepStrictEqual(classifyError({ errors: [{ type: 'RATE_LIMITED' }], headers: {} }), { kind: 'rateLimited' });
+		assert.deepStrictEqual(classifyError(new Error('socket hang up')), { kind: 'failed' });
+	});
+
+	test('Retries with exponential backoff', async () => {
+		const delays: number[] = [];
+		let calls = 0;
+		const sync = new StatusSync(
+			async () => {
+				if (++calls < 4) {
+					throw new Error('offline');
+				}
+			},
+			{ baseDelay: 100, delay: async (ms) => { delays.push(ms); } }
+		);
+
+		await sync.push(status('Working'));
+		assert.strictEqual(calls, 4);
+		assert.deepStrictEqual(delays, [100, 200, 400]);
+		assert.ok(sync.lastSync);
+	});
+
+	test('Gives up after the maximum number of retries', async () => {
+		let calls = 0;
+		const states: SyncState[] = [];
+		const sync = new StatusSync(
+			async () => {
+				calls++;
+				throw new Error('offline');
+			},
+			{ maxRetries: 2, delay: async () => undefined }
+		);
+		sync.onDidChangeState((change) => states.push(change.state));
+
+		await sync.push(status('Working'));
+		assert.strictEqual(calls, 3);
+		assert.strictEqual(states[states.length - 1], 'failed');
+		assert.strictEqual(sync.lastSync, undefined);
+	});
+
+	test('Does not retry invalid tokens', async () => {
+		let calls = 0;
+		const states: SyncState[] = [];
+		const sync = new StatusSync(async () => {
+			calls++;
+			throw httpError(401);
+		}, { delay: async () => undefined });
+		sync.onDidChangeState((change) => states.push(change.state));
+
+		await sync.push(status('Working'));
+		assert.strictEqual(calls, 1);
+		assert.deepStrictEqual(states, ['pending', 'unauthorized']);
+	});
+
+	test('Waits for the rate limit to reset', async () => {
+		const delays: number[] = [];
+		let calls = 0;
+		const sync = new StatusSync(
+			async () => {
+				if (++calls === 1) {
+					throw httpError(429, { 'retry-after': '60' });
+				}
+			},
+			{ delay: async (ms) => { delays.push(ms); } }
+		);
+
+		await sync.push(status('Working'));
+		assert.deepStrictEqual(delays, [60000]);
+	});
+
+	test('Only sends the newest pending status', async () => {
+		const sent: string[] = [];
+		let release: () => void = () => undefined;
+		const blocked = new Promise<void>((resolve) => (release = resolve));
+		const sync = new StatusSync(async (update) => {
+			sent.push(update.message ?? '');
+			if (sent.length === 1) {
+				await blocked;
+			}
+		});
+
+		const first = sync.push(status('first'));
+		const second = sync.push(status('second'));
+		const third = sync.push(status('third'));
+		release();
+		await Promise.all([first, second, third]);
+		assert.deepStrictEqual(sent, ['first', 'third']);
+	});
+
+	test('Replaces a failed status with a newer one while backing off', async () => {
+		const sent: string[] = [];
+		let newer: Promise<void> = Promise.resolve();
+		const sync: StatusSync = new StatusSync(
+			async (update) => {
+				sent.push(update.message ?? '');
+				if (sent.length === 1) {
+					throw new Error('offline');
+				}
+			},
+			{
+				delay: async () => {
+					newer = sync.push(status('newer'));
+				},
+			}
+		);
+
+		await sync.push(status('stale'));
+		await newer;
+		assert.deepStrictEqual(sent, ['stale', 'newer']);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { buildUsersQuery, getActiveStatus, parseTeam, sortTeammates, Teammate } from '../../service/team';
+
+suite('Team Test Suite', () => {
+	const teammate = (login: string, name: string | null, message?: string): Teammate => ({
+		login,
+		name,
+		url: `https://github.com/${login}`,
+		status: message
+			? { emoji: ':dart:', expiresAt: null, indicatesLimitedAvailability: false, message }
+			: null,
+	});
+
+	test('Parses org/team-slug', () => {
+		assert.deepStrictEqual(parseTeam('acme/frontend'), { organization: 'acme', slug: 'frontend' });
+		assert.deepStrictEqual(parseTeam(' @acme/web-platform '), { organization: 'acme', slug: 'web-platform' });
+		assert.strictEqual(parseTeam('acme'), undefined);
+		assert.strictEqual(parseTeam(''), undefined);
+		assert.strictEqual(parseTeam(undefined), undefined);
+	});
+
+	test('Builds one field per login', () => {
+		const query = buildUsersQuery(2);
+		assert.match(query, /\$login0: String!, \$login1: String!/);
+		assert.match(query, /user0: user\(login: \$login0\)/);
+		assert.match(query, /user1: user\(login: \$login1\)/);
+	});
+
+	test('Drops expired and empty statuses', () => {
+		const now = Date.parse('2024-05-01T12:00:00Z');
+		const status = { emoji: null, expiresAt: '2024-05-01T12:30:00Z', indicatesLimitedAvailability: true, message: 'Deploying' };
+		assert.strictEqual(getActiveStatus(status, now), status);
+		assert.strictEqual(getActiveStatus({ ...status, expiresAt: '2024-05-01T11:59:00Z' }, now), null);
+		assert.strictEqual(getActiveStatus({ ...status, message: '' }, now), null);
+		assert.strictEqual(getActiveStatus(null, now), null);
+	});
+
+	test('Lists teammates with a status first', () => {
+		const sorted = sortTeammates([
+			teammate('zoe', null, 'Reviewing'),
+			teammate('bob', 'Bob'),
+			teammate('amy', 'Amy', 'On call'),
+			teammate('AMY', 'Amy', 'On call'),
+		]);
+		assert.deepStrictEqual(sorted.map(({ login }) => login), ['AMY', 'zoe', 'bob']);
+	});
+});
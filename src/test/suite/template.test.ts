@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { formatDuration, renderTemplate } from '../../service/template';
+
+suite('Template Test Suite', () => {
+	test('Replaces placeholders', () => {
+		assert.strictEqual(
+			renderTemplate('Working on {workspace} in {language}', { workspace: 'api', language: 'go' }),
+			'Working on api in go'
+		);
+	});
+
+	test('Removes conditional sections with empty values', () => {
+		const template = 'Working on {workspace}[ in {language}][ for ({duration})]';
+		assert.strictEqual(renderTemplate(template, { workspace: 'api' }), 'Working on api');
+		assert.strictEqual(
+			renderTemplate(template, { workspace: 'api', duration: '5 minutes' }),
+			'Working on api for (5 minutes)'
+		);
+	});
+
+	test('Supports escaped brackets', () => {
+		assert.strictEqual(renderTemplate('\\[WIP\\] {workspace}', { workspace: 'api' }), '[WIP] api');
+	});
+
+	test('Shortens the least important values first', () => {
+		const message = renderTemplate('Working on {workspace}[ ({file})]', {
+			workspace: 'api',
+			file: 'a'.repeat(100),
+		});
+		assert.strictEqual([...message].length, 80);
+		assert.ok(message.startsWith('Working on api (aaa'));
+		assert.ok(message.endsWith('…)'));
+	});
+
+	test('Drops optional values that cannot be shortened enough', () => {
+		const workspace = 'w'.repeat(70);
+		const message = renderTemplate('{workspace}[ in {language}]', { workspace, language: 'typescript' });
+		assert.strictEqual(message, `${workspace} in types…`);
+		assert.strictEqual(
+			renderTemplate('{workspace}[ in {language}]', { workspace: 'w'.repeat(76), language: 'typescript' }),
+			'w'.repeat(76)
+		);
+	});
+
+	test('Never exceeds the limit', () => {
+		const message = renderTemplate('{workspace}', { workspace: 'w'.repeat(200) });
+		assert.strictEqual([...message].length, 80);
+	});
+
+	test('Formats durations', () => {
+		assert.strictEqual(formatDuration(1), '1 minute');
+		assert.strictEqual(formatDuration(5), '5 minutes');
+		assert.strictEqual(formatDuration(121), '2 hours 1 minute');
+	});
+});
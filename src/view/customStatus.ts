@@ -0,0 +1,135 @@
+import * as vscode from "vscode";
+import GitHubService from "../service/github";
+import {
+  CustomExpiry,
+  CustomPreset,
+  CustomPresets,
+  CustomStatus,
+  describeExpiry,
+  parseTime,
+  validateMessage,
+} from "../service/custom";
+
+const deleteButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("trash"),
+  tooltip: "Delete Preset",
+};
+
+interface PresetItem extends vscode.QuickPickItem {
+  preset?: CustomPreset;
+}
+
+function pickPreset(presets: CustomPresets): Promise<PresetItem | undefined> {
+  const quickPick = vscode.window.createQuickPick<PresetItem>();
+  quickPick.placeholder = "Pick a saved status or create a new one";
+  const refresh = () => {
+    quickPick.items = [
+      { label: "$(add) New Status..." },
+      ...presets.all.map((preset) => ({
+        label: `${preset.emoji ? `:${preset.emoji}: ` : ""}${preset.name}`,
+        description: `${describeExpiry(preset.expiry)}${preset.busy ? ", busy" : ""}`,
+        detail: preset.message,
+        buttons: [deleteButton],
+        preset,
+      })),
+    ];
+  };
+  refresh();
+
+  return new Promise((resolve) => {
+    quickPick.onDidTriggerItemButton(async (event) => {
+      if (event.item.preset) {
+        await presets.delete(event.item.preset.name);
+        refresh();
+      }
+    });
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems[0]);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      resolve(undefined);
+      quickPick.dispose();
+    });
+    quickPick.show();
+  });
+}
+
+async function pickExpiry(): Promise<CustomExpiry | undefined> {
+  const options: (vscode.QuickPickItem & { expiry?: CustomExpiry })[] = [
+    { label: "30 minutes", expiry: { kind: "minutes", minutes: 30 } },
+    { label: "1 hour", expiry: { kind: "minutes", minutes: 60 } },
+    { label: "Until end of day", expiry: { kind: "endOfDay" } },
+    { label: "Custom Time...", detail: "Clear the status at a time of day" },
+    { label: "Don't clear", expiry: { kind: "never" } },
+  ];
+  const selected = await vscode.window.showQuickPick(options, { placeHolder: "Clear the status after" });
+  if (!selected || selected.expiry) {
+    return selected?.expiry;
+  }
+
+  const time = await vscode.window.showInputBox({
+    prompt: "Clear the status at (HH:MM)",
+    placeHolder: "17:30",
+    validateInput: (value) => (parseTime(value) ? undefined : "Enter a time such as 17:30"),
+  });
+  return time ? { kind: "time", time: time.trim() } : undefined;
+}
+
+/**
+ * Asks for a custom status, either from a saved preset or by entering a
+ * message, emoji, busy flag and expiry. New statuses can be saved as presets.
+ */
+export async function pickCustomStatus(
+  service: GitHubService,
+  presets: CustomPresets
+): Promise<CustomStatus | undefined> {
+  const selected = await pickPreset(presets);
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.preset) {
+    const { name, ...status } = selected.preset;
+    return status;
+  }
+
+  const message = await vscode.window.showInputBox({
+    prompt: "Status message",
+    placeHolder: "Out for lunch",
+    validateInput: validateMessage,
+  });
+  if (message === undefined) {
+    return undefined;
+  }
+
+  const emoji = await service.selectEmoji();
+  if (!emoji) {
+    return undefined;
+  }
+
+  const availability = await vscode.window.showQuickPick(
+    [
+      { label: "$(check) Available", busy: false },
+      { label: "$(circle-slash) Busy", detail: "Show that you have limited availability", busy: true },
+    ],
+    { placeHolder: "Availability" }
+  );
+  if (!availability) {
+    return undefined;
+  }
+
+  const expiry = await pickExpiry();
+  if (!expiry) {
+    return undefined;
+  }
+
+  const status: CustomStatus = { message, emoji, busy: availability.busy, expiry };
+  const name = await vscode.window.showInputBox({
+    prompt: "Save as preset (leave empty to skip)",
+    placeHolder: "Lunch",
+  });
+  if (name?.trim()) {
+    await presets.save({ name: name.trim(), ...status });
+  }
+  return status;
+}
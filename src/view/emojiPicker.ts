@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import { CUSTOM_CATEGORY, EmojiInfo, EmojiPreferences, findEmoji } from "../service/emoji";
+
+// Shown below favourites and recent emojis until the user has used a few
+const POPULAR = ["computer", "rocket", "zap", "fire", "coffee", "brain", "eyes", "hammer", "wrench", "bulb"];
+
+interface EmojiItem extends vscode.QuickPickItem {
+  emoji?: EmojiInfo;
+}
+
+const favoriteButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("star-empty"),
+  tooltip: "Add to Favorites",
+};
+const unfavoriteButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("star-full"),
+  tooltip: "Remove from Favorites",
+};
+
+function toItem(emoji: EmojiInfo, preferences: EmojiPreferences): EmojiItem {
+  const custom = !emoji.unicode;
+  return {
+    label: `${emoji.unicode ?? "$(github)"} :${emoji.name}:`,
+    // Searched by the quick pick along with the label
+    description: [...emoji.aliases.map((alias) => `:${alias}:`), ...emoji.keywords].join(" "),
+    detail: custom ? "Custom GitHub emoji, only shown as an image on GitHub" : undefined,
+    buttons: [preferences.favorites.includes(emoji.name) ? unfavoriteButton : favoriteButton],
+    emoji,
+  };
+}
+
+function buildItems(emojis: EmojiInfo[], preferences: EmojiPreferences): EmojiItem[] {
+  const section = (label: string, names: readonly string[]): EmojiItem[] => {
+    const items = names
+      .map((name) => findEmoji(emojis, name))
+      .filter((emoji): emoji is EmojiInfo => !!emoji)
+      .map((emoji) => toItem(emoji, preferences));
+    return items.length > 0 ? [{ label, kind: vscode.QuickPickItemKind.Separator }, ...items] : [];
+  };
+
+  const categories = new Map<string, EmojiInfo[]>();
+  emojis.forEach((emoji) => categories.set(emoji.category, [...(categories.get(emoji.category) ?? []), emoji]));
+  // Custom emojis last
+  const order = [...categories.keys()].sort(
+    (a, b) => Number(a === CUSTOM_CATEGORY) - Number(b === CUSTOM_CATEGORY)
+  );
+
+  return [
+    ...section("Favorites", preferences.favorites),
+    ...section("Recently Used", preferences.recent.filter((name) => !preferences.favorites.includes(name))),
+    ...(preferences.recent.length < 3 ? section("Popular", POPULAR) : []),
+    ...order.flatMap((category) => [
+      { label: category, kind: vscode.QuickPickItemKind.Separator },
+      ...(categories.get(category) ?? []).map((emoji) => toItem(emoji, preferences)),
+    ]),
+  ];
+}
+
+/**
+ * Lets the user pick an emoji by shortcode or keyword, with favourites and
+ * recently used emojis at the top. Returns the shortcode without colons.
+ */
+export function pickEmoji(emojis: EmojiInfo[], preferences: EmojiPreferences): Promise<string | undefined> {
+  const quickPick = vscode.window.createQuickPick<EmojiItem>();
+  quickPick.placeholder = "Search emojis by name or keyword, e.g. bug or party";
+  quickPick.matchOnDescription = true;
+  quickPick.items = buildItems(emojis, preferences);
+
+  return new Promise((resolve) => {
+    quickPick.onDidTriggerItemButton(async (event) => {
+      if (event.item.emoji) {
+        await preferences.toggleFavorite(event.item.emoji.name);
+        const value = quickPick.value;
+        quickPick.items = buildItems(emojis, preferences);
+        quickPick.value = value;
+      }
+    });
+    quickPick.onDidAccept(async () => {
+      const name = quickPick.selectedItems[0]?.emoji?.name;
+      quickPick.hide();
+      if (name) {
+        await preferences.addRecent(name);
+      }
+      resolve(name);
+    });
+    quickPick.onDidHide(() => {
+      resolve(undefined);
+      quickPick.dispose();
+    });
+    quickPick.show();
+  });
+}
@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import moment from "moment";
+import { StatsEntry, StatsTotal, summarize } from "../service/stats";
+import { formatDuration } from "../service/template";
+
+const DAYS = 14;
+const WEEKS = 4;
+
+let panel: vscode.WebviewPanel | undefined;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function table(title: string, heading: string, totals: StatsTotal[]): string {
+  if (totals.length === 0) {
+    return `<h2>${escapeHtml(title)}</h2><p>No activity recorded yet.</p>`;
+  }
+  const rows = totals
+    .map(
+      (total) =>
+        `<tr><td>${escapeHtml(total.key)}</td><td>${formatDuration(total.activeMinutes)}</td><td>${formatDuration(total.idleMinutes)}</td></tr>`
+    )
+    .join("");
+  return `<h2>${escapeHtml(title)}</h2>
+    <table>
+      <thead><tr><th>${escapeHtml(heading)}</th><th>Active</th><th>Idle</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+function render(entries: StatsEntry[]): string {
+  const today = moment().format("YYYY-MM-DD");
+  const weekStart = moment().startOf("isoWeek").format("YYYY-MM-DD");
+  const daysStart = moment().subtract(DAYS - 1, "days").format("YYYY-MM-DD");
+  const weeksStart = moment().subtract(WEEKS - 1, "weeks").startOf("isoWeek").format("YYYY-MM-DD");
+
+  const todays = entries.filter((entry) => entry.date === today);
+  const thisWeek = entries.filter((entry) => entry.date >= weekStart);
+  const week = (entry: StatsEntry) => {
+    const start = moment(entry.date, "YYYY-MM-DD").startOf("isoWeek");
+    return `Week ${start.isoWeek()} (${start.format("MMM D")})`;
+  };
+
+  const sections = [
+    table("Today by project", "Project", summarize(todays, (entry) => entry.workspace)),
+    table("Today by language", "Language", summarize(todays, (entry) => entry.language)),
+    table("This week by project", "Project", summarize(thisWeek, (entry) => entry.workspace)),
+    table("This week by language", "Language", summarize(thisWeek, (entry) => entry.language)),
+    table(
+      `Last ${DAYS} days`,
+      "Day",
+      summarize(entries.filter((entry) => entry.date >= daysStart), (entry) => entry.date)
+        .sort((a, b) => b.key.localeCompare(a.key))
+    ),
+    table(
+      `Last ${WEEKS} weeks`,
+      "Week",
+      summarize(entries.filter((entry) => entry.date >= weeksStart), week)
+    ),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+  <title>GitHub Status Statistics</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    table { border-collapse: collapse; margin-bottom: 1.5em; min-width: 50%; }
+    th, td { text-align: left; padding: 4px 12px; border-bottom: 1px solid var(--vscode-panel-border); }
+  </style>
+</head>
+<body>
+  <h1>GitHub Status Statistics</h1>
+  ${sections.join("\n")}
+</body>
+</html>`;
+}
+
+/**
+ * Shows daily and weekly totals per project and language in a webview.
+ */
+export function showStatistics(entries: StatsEntry[]): void {
+  if (panel) {
+    panel.webview.html = render(entries);
+    panel.reveal();
+    return;
+  }
+
+  panel = vscode.window.createWebviewPanel(
+    "githubstatus.statistics",
+    "GitHub Status Statistics",
+    vscode.ViewColumn.Active,
+    { enableScripts: false }
+  );
+  panel.webview.html = render(entries);
+  panel.onDidDispose(() => {
+    panel = undefined;
+  });
+}
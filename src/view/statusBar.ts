@@ -0,0 +1,206 @@
+import * as vscode from "vscode";
+import type GitHubService from "../service/github";
+import { StatusController } from "../service/controller";
+import { FocusSession } from "../service/focus";
+import { getEmojiUnicode } from "../service/emoji";
+import { SyncStateChange } from "../service/sync";
+
+const TICK_INTERVAL = 1000;
+
+// Commands that may be run from links in the tooltip
+const TOOLTIP_COMMANDS = [
+  "githubstatus.showMenu",
+  "githubstatus.showHistory",
+  "githubstatus.activate",
+  "githubstatus.deactivate",
+  "githubstatus.setCustomStatus",
+  "githubstatus.signIn",
+];
+
+const STATE_LABELS = {
+  inactive: "Starting",
+  active: "Syncing",
+  idle: "Idle",
+  blacklisted: "Blacklisted",
+  paused: "Paused",
+  error: "Not syncing",
+};
+
+// Formats a number of seconds as e.g. `5:07` or `1:05:07`
+export function formatElapsed(seconds: number): string {
+  const pad = (value: number) => `${value}`.padStart(2, "0");
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : `${error}`);
+
+/**
+ * Status bar item showing the emoji of the posted status with the time spent
+ * in the workspace, or the focus countdown. The tooltip describes the last
+ * posted status and the upcoming updates.
+ */
+export class StatusBar implements vscode.Disposable {
+  private __item: vscode.StatusBarItem;
+  private __service: GitHubService;
+  private __controller: StatusController;
+  private __focus: FocusSession;
+  private __sync?: SyncStateChange;
+  private __timer: NodeJS.Timeout | null = null;
+  private __tooltip = "";
+  private __disposables: vscode.Disposable[] = [];
+
+  constructor(service: GitHubService, controller: StatusController, focus: FocusSession) {
+    this.__service = service;
+    this.__controller = controller;
+    this.__focus = focus;
+    this.__item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    this.__item.name = "GitHub Status";
+
+    this.__disposables.push(
+      service.onDidChangeSyncState((change) => {
+        this.__sync = change;
+        this.update();
+      }),
+      service.onDidPostStatus(() => this.update()),
+      controller.onDidChangeState(() => this.update()),
+      focus.onDidChange(() => this.update())
+    );
+    this.update();
+    this.__item.show();
+  }
+
+  public dispose(): void {
+    if (this.__timer) {
+      clearInterval(this.__timer);
+      this.__timer = null;
+    }
+    this.__disposables.forEach((disposable) => disposable.dispose());
+    this.__disposables = [];
+    this.__item.dispose();
+  }
+
+  public update(): void {
+    const state = this.__controller.state;
+    const sync = this.__sync?.state;
+    const signedOut = state === "error" && !this.__service.received;
+    const focus = this.__focus.current;
+
+    // The elapsed time and countdowns change every second
+    const live = this.__controller.isSyncing || !!focus;
+    if (live && !this.__timer) {
+      this.__timer = setInterval(() => this.update(), TICK_INTERVAL);
+    } else if (!live && this.__timer) {
+      clearInterval(this.__timer);
+      this.__timer = null;
+    }
+
+    let text: string;
+    let command = "githubstatus.showMenu";
+    let background: string | undefined;
+    if (signedOut) {
+      text = "$(account) GitHub Status Signed Out";
+      command = "githubstatus.signIn";
+      background = "statusBarItem.errorBackground";
+    } else if (sync === "unauthorized") {
+      text = "$(error) GitHub Status Token Invalid";
+      command = "githubstatus.signIn";
+      background = "statusBarItem.errorBackground";
+    } else if (state === "blacklisted") {
+      text = "$(circle-slash) GitHub Status Blacklisted";
+      command = "githubstatus.toggleBlacklist";
+    } else if (state === "paused") {
+      text = "$(debug-pause) GitHub Status Paused";
+    } else if (focus) {
+      const countdown = formatElapsed(this.__focus.remainingSeconds);
+      text = focus.mode === "focus" ? `$(target) Focus ${countdown}` : `$(coffee) Break ${countdown}`;
+    } else if (state === "idle") {
+      text = `${this.getEmoji()} Idle`;
+    } else if (state === "active") {
+      const startedAt = this.__service.startedAt;
+      const elapsed = startedAt ? Math.max(Math.floor((Date.now() - startedAt.getTime()) / 1000), 0) : 0;
+      text = `${this.getEmoji()} ${formatElapsed(elapsed)}`;
+    } else {
+      text = "$(pulse) Sending to GitHub status...";
+    }
+    if (sync === "failed" && !signedOut) {
+      text = `$(warning) ${text}`;
+      background = "statusBarItem.warningBackground";
+    }
+
+    this.__item.text = text;
+    this.__item.command = command;
+    this.__item.backgroundColor = background ? new vscode.ThemeColor(background) : undefined;
+
+    // Replacing the tooltip while it is shown makes it flicker
+    const tooltip = this.getTooltip();
+    if (tooltip.value !== this.__tooltip) {
+      this.__tooltip = tooltip.value;
+      this.__item.tooltip = tooltip;
+    }
+  }
+
+  private getEmoji(): string {
+    const emoji = this.__service.lastPosted?.emoji;
+    return (emoji && getEmojiUnicode(emoji)) || "$(github)";
+  }
+
+  private getTooltip(): vscode.MarkdownString {
+    const state = this.__controller.state;
+    const tooltip = new vscode.MarkdownString(undefined, true);
+    tooltip.isTrusted = { enabledCommands: TOOLTIP_COMMANDS };
+    const line = (label: string, value: string) => {
+      tooltip.appendMarkdown(`**${label}:** `);
+      tooltip.appendText(value);
+      tooltip.appendMarkdown("  \n");
+    };
+    const time = (date: Date) => date.toLocaleTimeString();
+
+    tooltip.appendMarkdown(`**GitHub Status** · ${STATE_LABELS[state]}\n\n`);
+
+    const posted = this.__service.lastPosted;
+    if (posted) {
+      const emoji = posted.emoji ? `${getEmojiUnicode(posted.emoji) ?? posted.emoji} ` : "";
+      line("Posted", `${emoji}${posted.message ?? ""}`);
+      if (posted.limitedAvailability) {
+        line("Busy", "yes");
+      }
+    }
+
+    const sync = this.__sync;
+    line("Last successful sync", sync?.lastSync ? time(sync.lastSync) : "none yet");
+    if (sync?.state === "failed") {
+      line("Last sync failed", `${errorMessage(sync.error)}, retrying`);
+    } else if (sync?.state === "unauthorized") {
+      line("Last sync failed", "GitHub rejected the token");
+    }
+
+    const nextUpdate = this.__controller.nextUpdate;
+    if (nextUpdate) {
+      line("Next update", time(nextUpdate));
+    }
+    const idleAt = this.__controller.idleAt;
+    if (state === "active" && idleAt) {
+      const minutes = Math.max(Math.ceil((idleAt.getTime() - Date.now()) / 60000), 0);
+      line("Idle in", `${minutes} min without activity`);
+    }
+
+    const links = ["[$(list-unordered) Menu](command:githubstatus.showMenu)"];
+    if (this.__service.received) {
+      links.push("[$(history) History](command:githubstatus.showHistory)");
+      if (this.__controller.isSyncing) {
+        links.push("[$(debug-pause) Pause](command:githubstatus.deactivate)");
+      } else if (state === "paused" || state === "error") {
+        links.push("[$(play) Resume](command:githubstatus.activate)");
+      }
+      links.push("[$(edit) Custom Status](command:githubstatus.setCustomStatus)");
+    } else {
+      links.push("[$(account) Sign In](command:githubstatus.signIn)");
+    }
+    tooltip.appendMarkdown(`\n---\n\n${links.join(" · ")}`);
+    return tooltip;
+  }
+}
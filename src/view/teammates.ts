@@ -0,0 +1,161 @@
+import * as vscode from "vscode";
+import moment from "moment";
+import type GitHubService from "../service/github";
+import { getEmojiUnicode } from "../service/emoji";
+import { parseTeam, Teammate } from "../service/team";
+
+export const TEAMMATES_VIEW = "githubstatus.teammates";
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : `${error}`);
+
+// Emoji of a status as a character, custom emojis stay shortcodes
+function getEmojiPreview(emoji: string | null): string {
+  return emoji ? getEmojiUnicode(emoji) ?? emoji : "";
+}
+
+/**
+ * Tree view listing the statuses of the users in `githubstatus.teammates` and
+ * the members of `githubstatus.team`. Refreshed on the update interval while
+ * the view is visible.
+ */
+export class TeammatesView implements vscode.TreeDataProvider<Teammate>, vscode.Disposable {
+  private __service: GitHubService;
+  private __view: vscode.TreeView<Teammate>;
+  private __teammates: Teammate[] = [];
+  private __timer: NodeJS.Timeout | null = null;
+  private __lastRefresh = 0;
+  private __refreshing?: Promise<void>;
+  private __disposables: vscode.Disposable[] = [];
+  private __onDidChangeTreeData = new vscode.EventEmitter<void>();
+
+  public readonly onDidChangeTreeData = this.__onDidChangeTreeData.event;
+
+  constructor(service: GitHubService) {
+    this.__service = service;
+    this.__view = vscode.window.createTreeView(TEAMMATES_VIEW, { treeDataProvider: this });
+
+    this.__disposables.push(
+      this.__view,
+      this.__view.onDidChangeVisibility(() => {
+        if (this.__view.visible && Date.now() - this.__lastRefresh >= this.interval) {
+          this.refresh();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("githubstatus.interval")) {
+          this.startTimer();
+        }
+        if (
+          event.affectsConfiguration("githubstatus.teammates") ||
+          event.affectsConfiguration("githubstatus.team") ||
+          event.affectsConfiguration("githubstatus.apiBaseUrl")
+        ) {
+          this.refresh();
+        }
+      })
+    );
+    this.startTimer();
+  }
+
+  public dispose(): void {
+    if (this.__timer) {
+      clearInterval(this.__timer);
+      this.__timer = null;
+    }
+    this.__disposables.forEach((disposable) => disposable.dispose());
+    this.__disposables = [];
+    this.__onDidChangeTreeData.dispose();
+  }
+
+  public getTreeItem(teammate: Teammate): vscode.TreeItem {
+    const status = teammate.status;
+    const busy = !!status?.indicatesLimitedAvailability;
+    const item = new vscode.TreeItem(teammate.name || teammate.login);
+    item.id = teammate.login;
+    item.contextValue = "teammate";
+    item.iconPath = new vscode.ThemeIcon(busy ? "circle-slash" : status ? "comment" : "account");
+
+    const text = status ? `${getEmojiPreview(status.emoji)} ${status.message ?? ""}`.trim() : "";
+    item.description = busy ? `${text} · Busy` : text;
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${teammate.name || teammate.login}**`);
+    if (teammate.name) {
+      tooltip.appendText(` @${teammate.login}`);
+    }
+    tooltip.appendMarkdown("\n\n");
+    if (status) {
+      tooltip.appendText(text);
+      tooltip.appendMarkdown("  \n");
+      if (busy) {
+        tooltip.appendMarkdown("Busy, responses may be delayed  \n");
+      }
+      if (status.expiresAt) {
+        tooltip.appendText(`Expires ${moment(status.expiresAt).fromNow()}`);
+      }
+    } else {
+      tooltip.appendText("No status set");
+    }
+    item.tooltip = tooltip;
+
+    item.command = {
+      command: "vscode.open",
+      title: "Open Profile",
+      arguments: [vscode.Uri.parse(teammate.url)],
+    };
+    return item;
+  }
+
+  public getChildren(teammate?: Teammate): Teammate[] {
+    return teammate ? [] : this.__teammates;
+  }
+
+  /**
+   * Fetches the statuses again. Concurrent calls share the same request.
+   */
+  public refresh(): Promise<void> {
+    if (!this.__refreshing) {
+      this.__refreshing = this.load().finally(() => (this.__refreshing = undefined));
+    }
+    return this.__refreshing;
+  }
+
+  private async load(): Promise<void> {
+    this.__lastRefresh = Date.now();
+    const config = vscode.workspace.getConfiguration("githubstatus");
+    const configured = (config.get<string[]>("teammates") ?? []).length > 0 || !!parseTeam(config.get<string>("team"));
+
+    if (!configured) {
+      this.__teammates = [];
+      this.__view.message = 'Add GitHub logins to the "githubstatus.teammates" setting or set "githubstatus.team" to see their statuses.';
+    } else if (!this.__service.received) {
+      this.__teammates = [];
+      this.__view.message = "Sign in with GitHub to see your teammates' statuses.";
+    } else {
+      try {
+        this.__teammates = await this.__service.getTeammates();
+        this.__view.message = this.__teammates.length === 0 ? "No teammates found." : undefined;
+      } catch (err) {
+        console.error("Failed to load teammates:", err);
+        // Keep showing the last statuses we have
+        this.__view.message = `Failed to load statuses: ${errorMessage(err)}`;
+      }
+    }
+    this.__onDidChangeTreeData.fire();
+  }
+
+  private get interval(): number {
+    return (vscode.workspace.getConfiguration("githubstatus").get<number>("interval") ?? 5) * 60000;
+  }
+
+  private startTimer(): void {
+    if (this.__timer) {
+      clearInterval(this.__timer);
+    }
+    this.__timer = setInterval(() => {
+      if (this.__view.visible) {
+        this.refresh();
+      }
+    }, this.interval);
+  }
+}